@@ -18,6 +18,13 @@ import ManageUsers from "@/pages/admin/manage-users";
 import AdminLogs from "@/pages/admin/logs";
 import AdminProducts from "@/pages/admin/products";
 import CashRedemptions from "@/pages/admin/cash-redemptions";
+import PayoutBatches from "@/pages/admin/payout-batches";
+import VoucherCodes from "@/pages/admin/voucher-codes";
+import Fulfilments from "@/pages/admin/fulfilments";
+import ConversionRates from "@/pages/admin/conversion-rates";
+import TierManagement from "@/pages/admin/tiers";
+import EmailOutbox from "@/pages/admin/email-outbox";
+import EmailTemplates from "@/pages/admin/email-templates";
 
 // Customer pages
 import CustomerDashboard from "@/pages/customer/dashboard";
@@ -81,11 +88,36 @@ function Router() {
             <ProtectedRoute component={AdminRewards} admin />
           </AdminLayout>
         </Route>
+        <Route path="/admin/rewards/:id/codes">
+          <AdminLayout>
+            <ProtectedRoute component={VoucherCodes} admin />
+          </AdminLayout>
+        </Route>
+        <Route path="/admin/fulfilments">
+          <AdminLayout>
+            <ProtectedRoute component={Fulfilments} admin />
+          </AdminLayout>
+        </Route>
         <Route path="/admin/cash-redemptions">
           <AdminLayout>
             <ProtectedRoute component={CashRedemptions} admin />
           </AdminLayout>
         </Route>
+        <Route path="/admin/payout-batches">
+          <AdminLayout>
+            <ProtectedRoute component={PayoutBatches} admin />
+          </AdminLayout>
+        </Route>
+        <Route path="/admin/conversion-rates">
+          <AdminLayout>
+            <ProtectedRoute component={ConversionRates} admin />
+          </AdminLayout>
+        </Route>
+        <Route path="/admin/tiers">
+          <AdminLayout>
+            <ProtectedRoute component={TierManagement} admin />
+          </AdminLayout>
+        </Route>
         <Route path="/admin/manage-users">
           <AdminLayout>
             <ProtectedRoute component={ManageUsers} admin />
@@ -96,6 +128,16 @@ function Router() {
             <ProtectedRoute component={AdminLogs} admin />
           </AdminLayout>
         </Route>
+        <Route path="/admin/email-outbox">
+          <AdminLayout>
+            <ProtectedRoute component={EmailOutbox} admin />
+          </AdminLayout>
+        </Route>
+        <Route path="/admin/email-templates">
+          <AdminLayout>
+            <ProtectedRoute component={EmailTemplates} admin />
+          </AdminLayout>
+        </Route>
 
         {/* Customer Routes */}
         <Route path="/dashboard">
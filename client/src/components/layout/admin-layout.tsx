@@ -3,14 +3,21 @@ import { useUser } from "@/hooks/use-user";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
 import { cn } from "@/lib/utils";
+import NotificationBell from "@/components/shared/notification-bell";
 import { 
   LayoutDashboard, 
   Users, 
   Package, 
   Gift, 
+  Truck,
   DollarSign, 
+  Layers,
+  Coins,
+  Award,
   UserCog,
   ScrollText,
+  Mail,
+  FileText,
   LogOut,
   Menu,
   X
@@ -36,9 +43,15 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
     { label: "Customers", href: "/admin/customers", icon: <Users className="h-4 w-4 mr-2" /> },
     { label: "Products", href: "/admin/products", icon: <Package className="h-4 w-4 mr-2" /> },
     { label: "Rewards", href: "/admin/rewards", icon: <Gift className="h-4 w-4 mr-2" /> },
+    { label: "Fulfilment", href: "/admin/fulfilments", icon: <Truck className="h-4 w-4 mr-2" /> },
     { label: "Cash Redemptions", href: "/admin/cash-redemptions", icon: <DollarSign className="h-4 w-4 mr-2" /> },
+    { label: "Payout Batches", href: "/admin/payout-batches", icon: <Layers className="h-4 w-4 mr-2" /> },
+    { label: "Conversion Rate", href: "/admin/conversion-rates", icon: <Coins className="h-4 w-4 mr-2" /> },
+    { label: "Tiers", href: "/admin/tiers", icon: <Award className="h-4 w-4 mr-2" /> },
     { label: "Admin Management", href: "/admin/manage-users", icon: <UserCog className="h-4 w-4 mr-2" /> },
     { label: "Action Logs", href: "/admin/logs", icon: <ScrollText className="h-4 w-4 mr-2" /> },
+    { label: "Email Outbox", href: "/admin/email-outbox", icon: <Mail className="h-4 w-4 mr-2" /> },
+    { label: "Email Templates", href: "/admin/email-templates", icon: <FileText className="h-4 w-4 mr-2" /> },
   ];
 
   return (
@@ -120,7 +133,10 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
       </aside>
 
       <main className="flex-1 overflow-y-auto">
-        <div className="h-full p-4 lg:p-8">
+        <div className="flex justify-end px-4 pt-4 pr-20 lg:px-8 lg:pr-8">
+          <NotificationBell />
+        </div>
+        <div className="p-4 lg:p-8 lg:pt-4">
           {children}
         </div>
       </main>
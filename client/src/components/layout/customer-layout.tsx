@@ -5,6 +5,7 @@ import { useLocation } from "wouter";
 import { Home, Gift, Users, User, Menu, X } from "lucide-react";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
+import NotificationBell from "@/components/shared/notification-bell";
 
 export default function CustomerLayout({ children }: { children: React.ReactNode }) {
   const { logoutMutation } = useUser();
@@ -104,7 +105,10 @@ export default function CustomerLayout({ children }: { children: React.ReactNode
 
       {/* Main content */}
       <main className="flex-1 overflow-y-auto pb-16 lg:pb-0">
-        <div className="h-full p-4 lg:p-8">
+        <div className="flex justify-end px-4 pt-4 pr-20 lg:px-8 lg:pr-8">
+          <NotificationBell />
+        </div>
+        <div className="p-4 lg:p-8 lg:pt-4">
           {children}
         </div>
       </main>
@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+export interface DeliveryAddress {
+  line1: string;
+  line2?: string;
+  suburb?: string;
+  city: string;
+  province: string;
+  postalCode: string;
+}
+
+const PROVINCES = [
+  "Eastern Cape",
+  "Free State",
+  "Gauteng",
+  "KwaZulu-Natal",
+  "Limpopo",
+  "Mpumalanga",
+  "North West",
+  "Northern Cape",
+  "Western Cape",
+];
+
+const deliveryAddressSchema = z.object({
+  line1: z.string().min(1, "Street address is required"),
+  line2: z.string().optional(),
+  suburb: z.string().optional(),
+  city: z.string().min(1, "City is required"),
+  province: z.string().min(1, "Province is required"),
+  postalCode: z.string().regex(/^\d{4}$/, "Postal code must be 4 digits"),
+});
+
+export function formatDeliveryAddress(address: DeliveryAddress) {
+  return [address.line1, address.line2, address.suburb, address.city, address.province, address.postalCode]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export default function DeliveryAddressCard() {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const { data: address, isLoading } = useQuery<DeliveryAddress | null>({
+    queryKey: ["/api/user/delivery-address"],
+  });
+
+  const form = useForm<DeliveryAddress>({
+    resolver: zodResolver(deliveryAddressSchema),
+    defaultValues: {
+      line1: "",
+      line2: "",
+      suburb: "",
+      city: "",
+      province: "",
+      postalCode: "",
+    },
+  });
+
+  useEffect(() => {
+    if (address) form.reset({ line2: "", suburb: "", ...address });
+  }, [address, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: DeliveryAddress) => {
+      const res = await fetch("/api/user/delivery-address", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    onSuccess: (data: DeliveryAddress) => {
+      queryClient.setQueryData(["/api/user/delivery-address"], data);
+      setIsEditing(false);
+      toast({
+        title: "Success",
+        description: "Delivery address saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const showForm = isEditing || (!isLoading && !address);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Delivery Address</CardTitle>
+        <CardDescription>Physical rewards are sent here</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {address && !isEditing && (
+          <div className="space-y-3">
+            <p className="p-4 border rounded-lg">{formatDeliveryAddress(address)}</p>
+            <Button variant="outline" className="w-full" onClick={() => setIsEditing(true)}>
+              Change Address
+            </Button>
+          </div>
+        )}
+
+        {showForm && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="line1"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Street Address</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="line2"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Complex, Building or Unit (optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="suburb"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Suburb (optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="city"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>City</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="province"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Province</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select your province" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PROVINCES.map((province) => (
+                          <SelectItem key={province} value={province}>{province}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="postalCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Postal Code</FormLabel>
+                    <FormControl>
+                      <Input {...field} inputMode="numeric" maxLength={4} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex gap-2">
+                {address && (
+                  <Button type="button" variant="outline" className="flex-1" onClick={() => setIsEditing(false)}>
+                    Cancel
+                  </Button>
+                )}
+                <Button type="submit" className="flex-1" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Save Address
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
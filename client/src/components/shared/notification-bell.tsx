@@ -0,0 +1,130 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useNotifications, type Notification, type NotificationType } from "@/hooks/use-notifications";
+import { cn } from "@/lib/utils";
+import { Bell, TrendingUp, TrendingDown, Award, DollarSign, Gift, UserPlus, Clock, Landmark, Package, Truck } from "lucide-react";
+
+interface NotificationInbox {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+function NotificationIcon({ notification }: { notification: Notification }) {
+  const icons: Record<NotificationType, JSX.Element> = {
+    POINTS_ADJUSTED: notification.payload.points < 0
+      ? <TrendingDown className="h-4 w-4 text-red-500" />
+      : <TrendingUp className="h-4 w-4 text-[#43EB3E]" />,
+    TIER_CHANGE: <Award className="h-4 w-4 text-yellow-500" />,
+    CASH_REDEMPTION_REQUESTED: <DollarSign className="h-4 w-4 text-[#1b75bc]" />,
+    CASH_REDEMPTION_PROCESSED: <DollarSign className="h-4 w-4 text-[#43EB3E]" />,
+    REWARD_FULFILLED: <Gift className="h-4 w-4 text-[#43EB3E]" />,
+    REFERRAL_JOINED: <UserPlus className="h-4 w-4 text-[#1b75bc]" />,
+    POINTS_EXPIRING: <Clock className="h-4 w-4 text-amber-500" />,
+    ADMIN_POINTS_ASSIGNED: <TrendingUp className="h-4 w-4 text-[#1b75bc]" />,
+    CASH_REDEMPTION_APPROVED: <DollarSign className="h-4 w-4 text-[#1b75bc]" />,
+    CASH_REDEMPTION_REJECTED: <DollarSign className="h-4 w-4 text-red-500" />,
+    PAYOUT_ACCOUNT_SUBMITTED: <Landmark className="h-4 w-4 text-[#1b75bc]" />,
+    PAYOUT_ACCOUNT_REVIEWED: notification.payload.status === "REJECTED"
+      ? <Landmark className="h-4 w-4 text-red-500" />
+      : <Landmark className="h-4 w-4 text-[#43EB3E]" />,
+    REWARD_LOW_STOCK: notification.payload.stock === 0
+      ? <Package className="h-4 w-4 text-red-500" />
+      : <Package className="h-4 w-4 text-amber-500" />,
+    REWARD_FULFILMENT_UPDATED: notification.payload.status === "CANCELLED"
+      ? <Truck className="h-4 w-4 text-red-500" />
+      : <Truck className="h-4 w-4 text-[#1b75bc]" />,
+  };
+
+  return icons[notification.type] ?? <Bell className="h-4 w-4" />;
+}
+
+export default function NotificationBell() {
+  // Keeps the live connection open while the bell is mounted
+  useNotifications();
+
+  const { data } = useQuery<NotificationInbox>({
+    queryKey: ["/api/notifications"],
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id?: number) => {
+      const res = await fetch(id ? `/api/notifications/${id}/read` : "/api/notifications/read-all", {
+        method: "POST",
+      });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const unreadCount = data?.unreadCount || 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-[#43EB3E] text-black text-xs font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h3 className="font-semibold">Notifications</h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={unreadCount === 0 || markReadMutation.isPending}
+            onClick={() => markReadMutation.mutate(undefined)}
+          >
+            Mark all as read
+          </Button>
+        </div>
+        <ScrollArea className="h-80">
+          {data?.notifications.length ? (
+            <div className="divide-y">
+              {data.notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  className={cn(
+                    "w-full text-left px-4 py-3 hover:bg-accent/50",
+                    !notification.readAt && "bg-accent/20"
+                  )}
+                  onClick={() => !notification.readAt && markReadMutation.mutate(notification.id)}
+                >
+                  <div className="flex items-start gap-3">
+                    <div className="mt-0.5 shrink-0">
+                      <NotificationIcon notification={notification} />
+                    </div>
+                    <div className="space-y-1 flex-1">
+                      <p className="text-sm font-medium flex items-center gap-2">
+                        {notification.title}
+                        {!notification.readAt && (
+                          <span className="h-2 w-2 rounded-full bg-[#43EB3E]" />
+                        )}
+                      </p>
+                      <p className="text-sm text-muted-foreground">{notification.message}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(notification.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-sm text-muted-foreground py-8">No notifications yet</p>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,127 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { NotificationType } from "@/hooks/use-notifications";
+import { Loader2 } from "lucide-react";
+
+type NotificationChannel = "EMAIL" | "IN_APP" | "SMS";
+
+interface NotificationPreference {
+  eventType: NotificationType;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+const EVENT_LABELS: Record<NotificationType, string> = {
+  POINTS_ADJUSTED: "Points added or deducted",
+  TIER_CHANGE: "Tier changes",
+  CASH_REDEMPTION_REQUESTED: "Cash redemption requests",
+  CASH_REDEMPTION_PROCESSED: "Cash redemptions paid",
+  REWARD_FULFILLED: "Rewards fulfilled",
+  REFERRAL_JOINED: "Referrals joining",
+  POINTS_EXPIRING: "Points about to expire",
+  ADMIN_POINTS_ASSIGNED: "Points you assign to customers",
+  CASH_REDEMPTION_APPROVED: "Cash redemptions approved",
+  CASH_REDEMPTION_REJECTED: "Cash redemptions rejected",
+  PAYOUT_ACCOUNT_SUBMITTED: "Bank details awaiting verification",
+  PAYOUT_ACCOUNT_REVIEWED: "Bank details verified or rejected",
+  REWARD_LOW_STOCK: "Rewards running low or sold out",
+  REWARD_FULFILMENT_UPDATED: "Reward orders shipped or cancelled",
+};
+
+const CHANNELS: { channel: NotificationChannel; label: string; available: boolean }[] = [
+  { channel: "EMAIL", label: "Email", available: true },
+  { channel: "IN_APP", label: "In-app", available: true },
+  { channel: "SMS", label: "SMS", available: false },
+];
+
+export default function NotificationPreferences() {
+  const { toast } = useToast();
+
+  const { data: preferences, isLoading } = useQuery<NotificationPreference[]>({
+    queryKey: ["/api/user/notification-preferences"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (preference: NotificationPreference) => {
+      const res = await fetch("/api/user/notification-preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify([preference]),
+      });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    onSuccess: (data: NotificationPreference[]) => {
+      queryClient.setQueryData(["/api/user/notification-preferences"], data);
+      toast({
+        title: "Success",
+        description: "Notification preferences updated",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const eventTypes = Array.from(new Set((preferences || []).map((p) => p.eventType)));
+  const isEnabled = (eventType: NotificationType, channel: NotificationChannel) =>
+    preferences?.find((p) => p.eventType === eventType && p.channel === channel)?.enabled ?? false;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notification Preferences</CardTitle>
+        <CardDescription>Choose how you hear about activity on your account</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                {CHANNELS.map(({ channel, label, available }) => (
+                  <TableHead key={channel} className="text-center">
+                    {label}
+                    {!available && (
+                      <span className="block text-xs font-normal text-muted-foreground">Coming soon</span>
+                    )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {eventTypes.map((eventType) => (
+                <TableRow key={eventType}>
+                  <TableCell>{EVENT_LABELS[eventType] ?? eventType}</TableCell>
+                  {CHANNELS.map(({ channel, label, available }) => (
+                    <TableCell key={channel} className="text-center">
+                      <Switch
+                        aria-label={`${EVENT_LABELS[eventType] ?? eventType} by ${label}`}
+                        checked={isEnabled(eventType, channel)}
+                        disabled={!available || updateMutation.isPending}
+                        onCheckedChange={(enabled) => updateMutation.mutate({ eventType, channel, enabled })}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+
+export type BankAccountType = "CHEQUE" | "SAVINGS" | "TRANSMISSION";
+
+export type PayoutAccountStatus = "PENDING_VERIFICATION" | "VERIFIED" | "REJECTED";
+
+export interface PayoutAccount {
+  id: number;
+  bankName: string;
+  branchCode: string;
+  accountType: BankAccountType;
+  accountNumberMasked: string;
+  holderName: string;
+  status: PayoutAccountStatus;
+  rejectionReason: string | null;
+  verifiedAt: string | null;
+  createdAt: string;
+}
+
+export const ACCOUNT_TYPE_LABELS: Record<BankAccountType, string> = {
+  CHEQUE: "Cheque / Current",
+  SAVINGS: "Savings",
+  TRANSMISSION: "Transmission",
+};
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutAccountStatus, string> = {
+  PENDING_VERIFICATION: "Awaiting verification",
+  VERIFIED: "Verified",
+  REJECTED: "Rejected",
+};
+
+export const PAYOUT_STATUS_VARIANTS: Record<PayoutAccountStatus, "default" | "secondary" | "destructive"> = {
+  PENDING_VERIFICATION: "secondary",
+  VERIFIED: "default",
+  REJECTED: "destructive",
+};
+
+// Universal branch codes for the major South African banks
+const BANKS = [
+  { name: "ABSA", branchCode: "632005" },
+  { name: "African Bank", branchCode: "430000" },
+  { name: "Capitec", branchCode: "470010" },
+  { name: "Discovery Bank", branchCode: "679000" },
+  { name: "FNB", branchCode: "250655" },
+  { name: "Investec", branchCode: "580105" },
+  { name: "Nedbank", branchCode: "198765" },
+  { name: "Standard Bank", branchCode: "051001" },
+  { name: "TymeBank", branchCode: "678910" },
+];
+
+const payoutAccountSchema = z.object({
+  bankName: z.string().min(1, "Bank is required"),
+  branchCode: z.string().regex(/^\d{6}$/, "Branch code must be 6 digits"),
+  accountType: z.enum(["CHEQUE", "SAVINGS", "TRANSMISSION"]),
+  accountNumber: z.string().regex(/^[\d\s-]{6,20}$/, "Account number must be 6 to 16 digits"),
+  holderName: z.string().min(1, "Account holder name is required"),
+});
+
+type PayoutAccountFormData = z.infer<typeof payoutAccountSchema>;
+
+export default function PayoutAccountCard() {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const { data: account, isLoading } = useQuery<PayoutAccount | null>({
+    queryKey: ["/api/user/payout-account"],
+  });
+
+  const form = useForm<PayoutAccountFormData>({
+    resolver: zodResolver(payoutAccountSchema),
+    defaultValues: {
+      bankName: "",
+      branchCode: "",
+      accountType: "CHEQUE",
+      accountNumber: "",
+      holderName: "",
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PayoutAccountFormData) => {
+      const res = await fetch("/api/user/payout-account", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    onSuccess: (data: PayoutAccount) => {
+      queryClient.setQueryData(["/api/user/payout-account"], data);
+      form.reset();
+      setIsEditing(false);
+      toast({
+        title: "Success",
+        description: "Bank details saved. We'll let you know once they have been verified.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const showForm = isEditing || (!isLoading && !account);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payout Bank Details</CardTitle>
+        <CardDescription>Cash redemptions are paid into this account once it has been verified</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {account && !isEditing && (
+          <div className="space-y-3">
+            <div className="flex items-start justify-between p-4 border rounded-lg">
+              <div className="space-y-1">
+                <p className="font-medium">{account.bankName} {account.accountNumberMasked}</p>
+                <p className="text-sm text-muted-foreground">
+                  {ACCOUNT_TYPE_LABELS[account.accountType]} account, branch {account.branchCode}
+                </p>
+                <p className="text-sm text-muted-foreground">{account.holderName}</p>
+                {account.status === "REJECTED" && account.rejectionReason && (
+                  <p className="text-sm text-red-500">{account.rejectionReason}</p>
+                )}
+              </div>
+              <Badge variant={PAYOUT_STATUS_VARIANTS[account.status]}>
+                {PAYOUT_STATUS_LABELS[account.status]}
+              </Badge>
+            </div>
+            <Button variant="outline" className="w-full" onClick={() => setIsEditing(true)}>
+              Change Bank Details
+            </Button>
+          </div>
+        )}
+
+        {showForm && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="bankName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bank</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        const bank = BANKS.find((b) => b.name === value);
+                        if (bank) form.setValue("branchCode", bank.branchCode, { shouldValidate: true });
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select your bank" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {BANKS.map((bank) => (
+                          <SelectItem key={bank.name} value={bank.name}>{bank.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="branchCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Branch Code</FormLabel>
+                    <FormControl>
+                      <Input {...field} inputMode="numeric" maxLength={6} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="accountType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Account Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(ACCOUNT_TYPE_LABELS) as BankAccountType[]).map((type) => (
+                          <SelectItem key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="accountNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Account Number</FormLabel>
+                    <FormControl>
+                      <Input {...field} inputMode="numeric" autoComplete="off" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="holderName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Account Holder Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex gap-2">
+                {account && (
+                  <Button type="button" variant="outline" className="flex-1" onClick={() => setIsEditing(false)}>
+                    Cancel
+                  </Button>
+                )}
+                <Button type="submit" className="flex-1" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Save Bank Details
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
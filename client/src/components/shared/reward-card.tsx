@@ -1,9 +1,50 @@
-import { useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { Link } from "wouter";
 import PointsDisplay from "./points-display";
+import type { DeliveryAddress } from "./delivery-address-card";
+
+export type RewardType = "VOUCHER" | "PHYSICAL" | "CASH" | "EXPERIENCE";
+
+export const REWARD_TYPE_LABELS: Record<RewardType, string> = {
+  VOUCHER: "Voucher",
+  PHYSICAL: "Physical Item",
+  CASH: "Cash",
+  EXPERIENCE: "Experience",
+};
+
+export type FulfilmentStatus = "ORDERED" | "SHIPPED" | "DELIVERED" | "CANCELLED";
+
+export const FULFILMENT_STATUS_LABELS: Record<FulfilmentStatus, string> = {
+  ORDERED: "Ordered",
+  SHIPPED: "Shipped",
+  DELIVERED: "Delivered",
+  CANCELLED: "Cancelled",
+};
+
+export const FULFILMENT_STATUS_VARIANTS: Record<FulfilmentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  ORDERED: "secondary",
+  SHIPPED: "outline",
+  DELIVERED: "default",
+  CANCELLED: "destructive",
+};
+
+export type RewardLimitPeriod = "WEEK" | "MONTH" | "YEAR" | "LIFETIME";
+
+export const LIMIT_PERIOD_LABELS: Record<RewardLimitPeriod, string> = {
+  WEEK: "per week",
+  MONTH: "per month",
+  YEAR: "per year",
+  LIFETIME: "per customer",
+};
+
+export function formatRewardLimit(limit: number, period: RewardLimitPeriod) {
+  const times = limit === 1 ? "Once" : limit === 2 ? "Twice" : `${limit} times`;
+  return `${times} ${LIMIT_PERIOD_LABELS[period]}`;
+}
 
 interface RewardCardProps {
   reward: {
@@ -12,7 +53,13 @@ interface RewardCardProps {
     description: string;
     pointsCost: number;
     imageUrl: string;
-    type?: "CASH" | "STANDARD";
+    type: RewardType;
+    randValue: string | null;
+    stock: number | null;
+    lowStockThreshold: number;
+    limitPerCustomer: number | null;
+    limitPeriod: RewardLimitPeriod;
+    availableUntil: string | null;
   };
   userPoints?: number;
   isAdmin?: boolean;
@@ -20,6 +67,12 @@ interface RewardCardProps {
 
 export default function RewardCard({ reward, userPoints, isAdmin }: RewardCardProps) {
   const { toast } = useToast();
+  const needsAddress = reward.type === "PHYSICAL" && !isAdmin;
+
+  const { data: deliveryAddress, isLoading: isAddressLoading } = useQuery<DeliveryAddress | null>({
+    queryKey: ["/api/user/delivery-address"],
+    enabled: needsAddress,
+  });
 
   const redeemMutation = useMutation({
     mutationFn: async () => {
@@ -31,13 +84,10 @@ export default function RewardCard({ reward, userPoints, isAdmin }: RewardCardPr
       if (!res.ok) throw new Error(await res.text());
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { message: string }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/customer/points"] });
       queryClient.invalidateQueries({ queryKey: ["/api/customer/transactions"] });
-      const message = reward.type === "CASH" 
-        ? `Successfully redeemed R${(reward.pointsCost * 0.015).toFixed(2)}!`
-        : "Reward redeemed successfully!";
-      toast({ title: "Success", description: message });
+      toast({ title: "Success", description: data.message });
     },
     onError: (error: Error) => {
       toast({
@@ -49,13 +99,13 @@ export default function RewardCard({ reward, userPoints, isAdmin }: RewardCardPr
   });
 
   const canRedeem = userPoints !== undefined && userPoints >= reward.pointsCost;
+  const missingAddress = needsAddress && !isAddressLoading && !deliveryAddress;
 
   const renderValue = () => {
     if (reward.type === "CASH") {
-      const randValue = (reward.pointsCost * 0.015).toFixed(2);
       return (
         <div className="flex flex-col gap-2">
-          <div className="text-lg font-semibold">R{randValue}</div>
+          <div className="text-lg font-semibold">R{reward.randValue}</div>
           <div className="text-sm text-muted-foreground">
             <PointsDisplay points={reward.pointsCost} size="small" />
           </div>
@@ -78,19 +128,36 @@ export default function RewardCard({ reward, userPoints, isAdmin }: RewardCardPr
       )}
       <CardHeader>
         <CardTitle>{reward.name}</CardTitle>
+        <p className="text-sm text-muted-foreground">{REWARD_TYPE_LABELS[reward.type]}</p>
       </CardHeader>
       <CardContent>
         <p className="text-sm text-muted-foreground">{reward.description}</p>
         <div className="mt-4">
           {renderValue()}
         </div>
+        <div className="mt-2 space-y-1 text-sm text-muted-foreground">
+          {reward.stock !== null && (
+            <p className={reward.stock <= reward.lowStockThreshold ? "text-amber-500" : undefined}>{reward.stock} left</p>
+          )}
+          {reward.availableUntil && (
+            <p>Available until {new Date(reward.availableUntil).toLocaleDateString()}</p>
+          )}
+          {reward.limitPerCustomer !== null && (
+            <p>{formatRewardLimit(reward.limitPerCustomer, reward.limitPeriod)}</p>
+          )}
+        </div>
+        {missingAddress && (
+          <p className="mt-2 text-sm text-amber-500">
+            Add a delivery address on your <Link href="/profile" className="underline">profile</Link> to redeem this reward.
+          </p>
+        )}
       </CardContent>
       {!isAdmin && (
         <CardFooter>
           <Button
             className="w-full"
             onClick={() => redeemMutation.mutate()}
-            disabled={!canRedeem}
+            disabled={!canRedeem || missingAddress || redeemMutation.isPending}
           >
             {canRedeem ? `Redeem ${reward.type === "CASH" ? "Cash" : "Reward"}` : "Insufficient Points"}
           </Button>
@@ -0,0 +1,32 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+export interface TierInfo {
+  id: number;
+  name: string;
+  color: string;
+  threshold: number;
+  nextTier?: {
+    id: number;
+    name: string;
+    color: string;
+    threshold: number;
+    pointsNeeded: number;
+  };
+}
+
+interface TierBadgeProps {
+  tier: Pick<TierInfo, "name" | "color">;
+  className?: string;
+}
+
+export default function TierBadge({ tier, className }: TierBadgeProps) {
+  return (
+    <Badge
+      className={cn("text-white border-transparent", className)}
+      style={{ backgroundColor: tier.color }}
+    >
+      {tier.name}
+    </Badge>
+  );
+}
@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp } from "lucide-react";
+
+export interface TierHistoryEntry {
+  id: number;
+  fromTier: string;
+  toTier: string;
+  direction: "UPGRADE" | "DOWNGRADE";
+  qualifyingPoints: number;
+  reason: string;
+  createdAt: string;
+}
+
+interface TierTimelineProps {
+  // Endpoint returning the history newest first
+  source: string;
+  currentTier?: string;
+}
+
+export default function TierTimeline({ source, currentTier }: TierTimelineProps) {
+  const { data: history = [], isLoading } = useQuery<TierHistoryEntry[]>({
+    queryKey: [source],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading tier history...</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No tier changes yet</p>;
+  }
+
+  const since = currentTier ? history.find((entry) => entry.toTier === currentTier) : history[0];
+
+  return (
+    <div className="space-y-4">
+      {since && (
+        <p className="text-sm">
+          Member since {since.toTier} on {new Date(since.createdAt).toLocaleDateString()}
+        </p>
+      )}
+      <ol className="space-y-3 border-l border-muted pl-4">
+        {history.map((entry) => (
+          <li key={entry.id} className="relative">
+            <span className="absolute -left-[1.4rem] top-0.5 rounded-full bg-background">
+              {entry.direction === "UPGRADE" ? (
+                <ArrowUp className="h-4 w-4 text-[#43EB3E]" />
+              ) : (
+                <ArrowDown className="h-4 w-4 text-red-500" />
+              )}
+            </span>
+            <p className="text-sm font-medium">
+              {entry.fromTier} → {entry.toTier}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {new Date(entry.createdAt).toLocaleDateString()} · {entry.qualifyingPoints.toLocaleString()} qualifying points
+            </p>
+            <p className="text-xs text-muted-foreground">{entry.reason}</p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
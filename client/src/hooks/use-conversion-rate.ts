@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+
+export interface ConversionRateSummary {
+  randPerPoint: string;
+  effectiveFrom: string | null;
+  next: {
+    randPerPoint: string;
+    effectiveFrom: string;
+  } | null;
+}
+
+// Rand shown to customers is an estimate; the server works out the amount
+// at the rate in force when the redemption is made.
+export function useConversionRate() {
+  const { data: rate, isLoading } = useQuery<ConversionRateSummary>({
+    queryKey: ["/api/conversion-rate"],
+  });
+
+  const randPerPoint = rate ? Number(rate.randPerPoint) : undefined;
+  const toRand = (points: number) =>
+    randPerPoint === undefined ? "-" : (Math.round(points * randPerPoint * 100) / 100).toFixed(2);
+
+  return { rate, randPerPoint, toRand, isLoading };
+}
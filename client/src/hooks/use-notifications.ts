@@ -1,18 +1,51 @@
 import { useEffect, useCallback } from "react";
 import { useUser } from "./use-user";
 import { useToast } from "./use-toast";
+import { queryClient } from "@/lib/queryClient";
 
-interface PointsNotification {
-  type: "POINTS_ALLOCATION";
-  points: number;
-  description: string;
-  timestamp: string;
+export type NotificationType =
+  | "POINTS_ADJUSTED"
+  | "TIER_CHANGE"
+  | "CASH_REDEMPTION_REQUESTED"
+  | "CASH_REDEMPTION_PROCESSED"
+  | "REWARD_FULFILLED"
+  | "REFERRAL_JOINED"
+  | "POINTS_EXPIRING"
+  | "ADMIN_POINTS_ASSIGNED"
+  | "CASH_REDEMPTION_APPROVED"
+  | "CASH_REDEMPTION_REJECTED"
+  | "PAYOUT_ACCOUNT_SUBMITTED"
+  | "PAYOUT_ACCOUNT_REVIEWED"
+  | "REWARD_LOW_STOCK"
+  | "REWARD_FULFILMENT_UPDATED";
+
+export interface Notification {
+  id: number;
+  type: NotificationType;
+  title: string;
+  message: string;
+  payload: Record<string, any>;
+  readAt: string | null;
+  createdAt: string;
 }
 
+const POLL_INTERVAL = 5000;
+const MAX_RECONNECT_DELAY = 60000;
+
 export function useNotifications() {
   const { user } = useUser();
   const { toast } = useToast();
 
+  const showNotification = useCallback((notification: Notification) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    toast({
+      title: notification.title,
+      description: notification.message,
+      duration: 5000,
+      variant: notification.type === "POINTS_ADJUSTED" && notification.payload.points < 0 ? "destructive" : "default",
+    });
+  }, [toast]);
+
   const pollNotifications = useCallback(async () => {
     if (!user) return;
 
@@ -20,34 +53,73 @@ export function useNotifications() {
       const response = await fetch('/api/notifications/poll');
       if (!response.ok) return;
 
-      const notifications: PointsNotification[] = await response.json();
-
-      notifications.forEach(notification => {
-        if (notification.type === "POINTS_ALLOCATION" && notification.points !== 0) {
-          toast({
-            title: "Points Update",
-            description: `${notification.points > 0 ? '+' : ''}${notification.points} points - ${notification.description}`,
-            duration: 5000,
-            variant: notification.points > 0 ? "default" : "destructive",
-          });
-        }
-      });
+      const notifications: Notification[] = await response.json();
+      notifications.forEach(showNotification);
     } catch (error) {
       console.error('Error polling notifications:', error);
     }
-  }, [user, toast]);
+  }, [user, showNotification]);
 
   useEffect(() => {
     if (!user) return;
 
-    // Initial poll
-    pollNotifications();
+    let socket: WebSocket | null = null;
+    let pollId: ReturnType<typeof setInterval> | null = null;
+    let reconnectId: ReturnType<typeof setTimeout> | null = null;
+    let reconnectDelay = POLL_INTERVAL;
+    let closed = false;
+
+    const startPolling = () => {
+      if (pollId) return;
+      pollNotifications();
+      pollId = setInterval(pollNotifications, POLL_INTERVAL);
+    };
+
+    const stopPolling = () => {
+      if (pollId) clearInterval(pollId);
+      pollId = null;
+    };
 
-    // Set up polling interval (every 5 seconds)
-    const intervalId = setInterval(pollNotifications, 5000);
+    // Poll while the socket is down and keep trying to reconnect, backing off
+    // up to a minute between attempts
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        reconnectDelay = POLL_INTERVAL;
+        stopPolling();
+        // Pick up anything queued while the socket was down
+        pollNotifications();
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          showNotification(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Error reading notification:', error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        startPolling();
+        reconnectId = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      };
+    };
+
+    if ("WebSocket" in window) {
+      connect();
+    } else {
+      startPolling();
+    }
 
     return () => {
-      clearInterval(intervalId);
+      closed = true;
+      stopPolling();
+      if (reconnectId) clearTimeout(reconnectId);
+      socket?.close();
     };
-  }, [pollNotifications]);
-}
\ No newline at end of file
+  }, [user, pollNotifications, showNotification]);
+}
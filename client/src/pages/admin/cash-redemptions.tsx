@@ -1,46 +1,138 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
-import { CheckCircle2, XCircle } from "lucide-react";
+import {
+  ACCOUNT_TYPE_LABELS,
+  PAYOUT_STATUS_LABELS,
+  PAYOUT_STATUS_VARIANTS,
+  type PayoutAccount,
+} from "@/components/shared/payout-account-card";
+import { Link } from "wouter";
+import { CheckCircle2, XCircle, Banknote, Eye, Layers } from "lucide-react";
 
-type Transaction = {
+type CashRedemptionStatus = "REQUESTED" | "APPROVED" | "IN_BATCH" | "PAID" | "REJECTED";
+
+type CashRedemptionAction = "approve" | "reject" | "mark-paid";
+
+type Person = {
+  firstName: string;
+  lastName: string;
+};
+
+type CashRedemption = {
   id: number;
   userId: number;
   points: number;
-  description: string;
+  amount: string;
+  status: CashRedemptionStatus;
+  payoutBatchId: number | null;
+  conversionRate: string;
+  rejectionReason: string | null;
+  reviewedAt: string | null;
+  paidAt: string | null;
   createdAt: string;
-  status?: 'PENDING' | 'PROCESSED';
-  user?: {
-    firstName: string;
-    lastName: string;
-    email: string;
-  };
+  user: Person & { email: string };
+  reviewer: Person | null;
+  payer: Person | null;
+  payoutAccount: PayoutAccount | null;
+};
+
+type PendingPayoutAccount = PayoutAccount & {
+  user: Person & { id: number; email: string };
+};
+
+type RevealedPayoutAccount = {
+  accountNumber: string;
+  holderName: string;
+};
+
+async function postJson(url: string, body?: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body ?? {}),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text;
+    try {
+      message = JSON.parse(text).error ?? text;
+    } catch {
+      // Plain text error
+    }
+    throw new Error(message);
+  }
+  return response.json();
+}
+
+const STATUS_LABELS: Record<CashRedemptionStatus, string> = {
+  REQUESTED: "Requested",
+  APPROVED: "Approved",
+  IN_BATCH: "In Batch",
+  PAID: "Paid",
+  REJECTED: "Rejected",
+};
+
+const STATUS_VARIANTS: Record<CashRedemptionStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  REQUESTED: "secondary",
+  APPROVED: "outline",
+  IN_BATCH: "outline",
+  PAID: "default",
+  REJECTED: "destructive",
 };
 
 export default function CashRedemptions() {
   const { toast } = useToast();
-  const { data: transactions = [] } = useQuery<Transaction[]>({
-    queryKey: ["/api/admin/cash-redemptions"],
+  const [status, setStatus] = useState<string>("all");
+  const [rejecting, setRejecting] = useState<CashRedemption | null>(null);
+  const [reason, setReason] = useState("");
+
+  const redemptionsUrl = status === "all" ? "/api/admin/cash-redemptions" : `/api/admin/cash-redemptions?status=${status}`;
+  const { data: redemptions = [] } = useQuery<CashRedemption[]>({
+    queryKey: [redemptionsUrl],
   });
 
-  const markProcessedMutation = useMutation({
-    mutationFn: async (transactionId: number) => {
-      const response = await fetch(`/api/admin/cash-redemptions/${transactionId}/process`, {
-        method: 'POST',
+  const updateMutation = useMutation({
+    mutationFn: ({ id, action, reason }: { id: number; action: CashRedemptionAction; reason?: string }) =>
+      postJson(`/api/admin/cash-redemptions/${id}/${action}`, { reason }),
+    onSuccess: (redemption: CashRedemption) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/cash-redemptions"),
+      });
+      setRejecting(null);
+      setReason("");
+      toast({
+        title: "Success",
+        description: `Cash redemption ${STATUS_LABELS[redemption.status].toLowerCase()}`,
       });
-      if (!response.ok) {
-        throw new Error('Failed to mark redemption as processed');
-      }
-      return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/cash-redemptions"] });
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const batchMutation = useMutation({
+    mutationFn: () => postJson("/api/admin/payout-batches"),
+    onSuccess: (batch: { id: number; redemptionCount: number; totalAmount: string }) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/cash-redemptions"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payout-batches"] });
       toast({
         title: "Success",
-        description: "Cash redemption marked as processed",
+        description: `Payout batch #${batch.id} created with ${batch.redemptionCount} payments totalling R${batch.totalAmount}. Download the bank file from Payout Batches.`,
       });
     },
     onError: (error: Error) => {
@@ -52,9 +144,36 @@ export default function CashRedemptions() {
     },
   });
 
+  const canReject = (redemption: CashRedemption) =>
+    redemption.status === "REQUESTED" || redemption.status === "APPROVED";
+
   return (
     <div className="space-y-6">
-      <h1 className="text-3xl font-bold">Cash Redemptions</h1>
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Cash Redemptions</h1>
+        <div className="flex items-center gap-4">
+          <Button variant="outline" asChild>
+            <Link href="/admin/payout-batches">Payout Batches</Link>
+          </Button>
+          <Button onClick={() => batchMutation.mutate()} disabled={batchMutation.isPending}>
+            <Layers className="h-4 w-4 mr-2" />
+            Batch Approved for EFT
+          </Button>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Filter by status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Redemptions</SelectItem>
+              {(Object.keys(STATUS_LABELS) as CashRedemptionStatus[]).map((value) => (
+                <SelectItem key={value} value={value}>{STATUS_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <PayoutAccountVerification />
 
       <Card>
         <CardHeader>
@@ -63,55 +182,297 @@ export default function CashRedemptions() {
         <CardContent>
           <ScrollArea className="h-[600px]">
             <div className="space-y-4">
-              {transactions.map((transaction) => (
+              {redemptions.map((redemption) => (
                 <div
-                  key={transaction.id}
+                  key={redemption.id}
                   className="flex items-center justify-between p-4 border rounded-lg"
                 >
                   <div className="space-y-1">
                     <p className="font-medium">
-                      {transaction.user?.firstName} {transaction.user?.lastName}
+                      {redemption.user.firstName} {redemption.user.lastName}
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      {transaction.user?.email}
+                      {redemption.user.email}
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      {new Date(transaction.createdAt).toLocaleString()}
+                      Requested {new Date(redemption.createdAt).toLocaleString()}
                     </p>
+                    {redemption.reviewer && redemption.reviewedAt && (
+                      <p className="text-sm text-muted-foreground">
+                        {redemption.status === "REJECTED" ? "Rejected" : "Approved"} by {redemption.reviewer.firstName} {redemption.reviewer.lastName} on {new Date(redemption.reviewedAt).toLocaleString()}
+                      </p>
+                    )}
+                    {redemption.payoutBatchId && (
+                      <p className="text-sm text-muted-foreground">
+                        In payout batch #{redemption.payoutBatchId}
+                      </p>
+                    )}
+                    {redemption.payer && redemption.paidAt && (
+                      <p className="text-sm text-muted-foreground">
+                        Paid by {redemption.payer.firstName} {redemption.payer.lastName} on {new Date(redemption.paidAt).toLocaleString()}
+                      </p>
+                    )}
+                    {redemption.payoutAccount ? (
+                      <p className="text-sm text-muted-foreground">
+                        Pay into {redemption.payoutAccount.bankName} {redemption.payoutAccount.accountNumberMasked} ({redemption.payoutAccount.holderName}, branch {redemption.payoutAccount.branchCode})
+                      </p>
+                    ) : (
+                      <p className="text-sm text-amber-500">
+                        No payout account on record
+                      </p>
+                    )}
+                    {redemption.rejectionReason && (
+                      <p className="text-sm text-red-500">
+                        Reason: {redemption.rejectionReason}
+                      </p>
+                    )}
                   </div>
                   <div className="text-right space-y-2">
+                    <Badge variant={STATUS_VARIANTS[redemption.status]}>
+                      {STATUS_LABELS[redemption.status]}
+                    </Badge>
                     <p className="font-semibold text-red-500">
-                      {transaction.points.toLocaleString()} points
+                      -{redemption.points.toLocaleString()} points
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      R{(Math.abs(transaction.points) * 0.015).toFixed(2)}
+                      R{redemption.amount} at R{Number(redemption.conversionRate)}/point
                     </p>
-                    {transaction.status === 'PROCESSED' ? (
-                      <div className="flex items-center gap-2 text-green-500">
-                        <CheckCircle2 className="h-4 w-4" />
-                        <span className="text-sm">Processed</span>
-                      </div>
-                    ) : (
-                      <Button
-                        size="sm"
-                        onClick={() => markProcessedMutation.mutate(transaction.id)}
-                        disabled={markProcessedMutation.isPending}
-                      >
-                        Mark as Processed
-                      </Button>
-                    )}
+                    <div className="flex justify-end gap-2">
+                      {redemption.status === "REQUESTED" && (
+                        <Button
+                          size="sm"
+                          onClick={() => updateMutation.mutate({ id: redemption.id, action: "approve" })}
+                          disabled={updateMutation.isPending}
+                        >
+                          <CheckCircle2 className="h-4 w-4 mr-2" />
+                          Approve
+                        </Button>
+                      )}
+                      {redemption.status === "APPROVED" && (
+                        <Button
+                          size="sm"
+                          onClick={() => updateMutation.mutate({ id: redemption.id, action: "mark-paid" })}
+                          disabled={updateMutation.isPending}
+                        >
+                          <Banknote className="h-4 w-4 mr-2" />
+                          Mark as Paid
+                        </Button>
+                      )}
+                      {canReject(redemption) && (
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => setRejecting(redemption)}
+                          disabled={updateMutation.isPending}
+                        >
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Reject
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </div>
               ))}
-              {transactions.length === 0 && (
+              {redemptions.length === 0 && (
                 <p className="text-center text-muted-foreground py-4">
-                  No cash redemptions yet
+                  No cash redemptions found
                 </p>
               )}
             </div>
           </ScrollArea>
         </CardContent>
       </Card>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Cash Redemption</DialogTitle>
+          </DialogHeader>
+          {rejecting && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {rejecting.points.toLocaleString()} points (R{rejecting.amount}) will be refunded to {rejecting.user.firstName} {rejecting.user.lastName}.
+              </p>
+              <Textarea
+                placeholder="Reason for rejecting"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || updateMutation.isPending}
+              onClick={() => rejecting && updateMutation.mutate({ id: rejecting.id, action: "reject", reason })}
+            >
+              Reject and Refund
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function PayoutAccountVerification() {
+  const { toast } = useToast();
+  const [revealed, setRevealed] = useState<Record<number, RevealedPayoutAccount>>({});
+  const [rejecting, setRejecting] = useState<PendingPayoutAccount | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: accounts = [] } = useQuery<PendingPayoutAccount[]>({
+    queryKey: ["/api/admin/payout-accounts?status=PENDING_VERIFICATION"],
+  });
+
+  const revealMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/admin/payout-accounts/${id}/reveal`);
+      if (!response.ok) throw new Error(await response.text());
+      return response.json() as Promise<RevealedPayoutAccount>;
+    },
+    onSuccess: (details, id) => {
+      setRevealed((current) => ({ ...current, [id]: details }));
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, decision, reason }: { id: number; decision: "verify" | "reject"; reason?: string }) =>
+      postJson(`/api/admin/payout-accounts/${id}/${decision}`, { reason }),
+    onSuccess: (account: PayoutAccount) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/payout-accounts"),
+      });
+      setRejecting(null);
+      setReason("");
+      toast({
+        title: "Success",
+        description: `Bank details ${PAYOUT_STATUS_LABELS[account.status].toLowerCase()}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  if (accounts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bank Details Awaiting Verification</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {accounts.map((account) => (
+            <div
+              key={account.id}
+              className="flex items-center justify-between p-4 border rounded-lg"
+            >
+              <div className="space-y-1">
+                <p className="font-medium">
+                  {account.user.firstName} {account.user.lastName}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {account.user.email}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {account.bankName}, {ACCOUNT_TYPE_LABELS[account.accountType]} account, branch {account.branchCode}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {revealed[account.id]
+                    ? `${revealed[account.id].accountNumber} (${revealed[account.id].holderName})`
+                    : `${account.accountNumberMasked} (${account.holderName})`}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Submitted {new Date(account.createdAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="text-right space-y-2">
+                <Badge variant={PAYOUT_STATUS_VARIANTS[account.status]}>
+                  {PAYOUT_STATUS_LABELS[account.status]}
+                </Badge>
+                <div className="flex justify-end gap-2">
+                  {!revealed[account.id] && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => revealMutation.mutate(account.id)}
+                      disabled={revealMutation.isPending}
+                    >
+                      <Eye className="h-4 w-4 mr-2" />
+                      Reveal
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    onClick={() => reviewMutation.mutate({ id: account.id, decision: "verify" })}
+                    disabled={reviewMutation.isPending}
+                  >
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                    Verify
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => setRejecting(account)}
+                    disabled={reviewMutation.isPending}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Bank Details</DialogTitle>
+          </DialogHeader>
+          {rejecting && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {rejecting.user.firstName} {rejecting.user.lastName} will be asked to submit their bank details again.
+              </p>
+              <Textarea
+                placeholder="Reason for rejecting"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || reviewMutation.isPending}
+              onClick={() => rejecting && reviewMutation.mutate({ id: rejecting.id, decision: "reject", reason })}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { useConversionRate } from "@/hooks/use-conversion-rate";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Trash2 } from "lucide-react";
+
+type ConversionRate = {
+  id: number;
+  randPerPoint: string;
+  effectiveFrom: string;
+  createdAt: string;
+  creator: {
+    firstName: string;
+    lastName: string;
+  };
+};
+
+async function readError(response: Response) {
+  const body = await response.text();
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.details?.[0]?.message ?? parsed.error ?? body;
+  } catch {
+    return body;
+  }
+}
+
+export default function ConversionRates() {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const { rate: current } = useConversionRate();
+  const [randPerPoint, setRandPerPoint] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+
+  const { data: rates = [] } = useQuery<ConversionRate[]>({
+    queryKey: ["/api/admin/conversion-rates"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/conversion-rates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/conversion-rate"] });
+  };
+
+  const scheduleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/admin/conversion-rates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          randPerPoint,
+          effectiveFrom: effectiveFrom ? new Date(effectiveFrom).toISOString() : undefined,
+        }),
+      });
+      if (!response.ok) throw new Error(await readError(response));
+      return response.json() as Promise<ConversionRate>;
+    },
+    onSuccess: (rate) => {
+      refresh();
+      setRandPerPoint("");
+      setEffectiveFrom("");
+      toast({
+        title: "Success",
+        description: `R${Number(rate.randPerPoint)} per point from ${new Date(rate.effectiveFrom).toLocaleString()}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/admin/conversion-rates/${id}`, { method: "DELETE" });
+      if (!response.ok) throw new Error(await readError(response));
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Success",
+        description: "Scheduled rate cancelled",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const canEdit = !!user?.isSuperAdmin;
+  const now = Date.now();
+  // Rates are listed newest first, so the first one already in effect is live
+  const liveRateId = rates.find((rate) => new Date(rate.effectiveFrom).getTime() <= now)?.id;
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Conversion Rate</h1>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Current Rate</CardTitle>
+            <CardDescription>Used for every cash redemption made now</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {current && (
+              <>
+                <p className="text-2xl font-semibold">R{Number(current.randPerPoint)} per point</p>
+                <p className="text-sm text-muted-foreground">
+                  {current.effectiveFrom
+                    ? `Since ${new Date(current.effectiveFrom).toLocaleString()}`
+                    : "Programme default"}
+                </p>
+                {current.next && (
+                  <p className="text-sm text-muted-foreground">
+                    Changes to R{Number(current.next.randPerPoint)} on {new Date(current.next.effectiveFrom).toLocaleString()}
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {canEdit && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Set a New Rate</CardTitle>
+              <CardDescription>Leave the start empty to apply it straight away</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  scheduleMutation.mutate();
+                }}
+              >
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Rand per point</label>
+                  <Input
+                    type="number"
+                    step="0.00001"
+                    min="0"
+                    value={randPerPoint}
+                    onChange={(e) => setRandPerPoint(e.target.value)}
+                    placeholder="0.015"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Takes effect from</label>
+                  <Input
+                    type="datetime-local"
+                    value={effectiveFrom}
+                    onChange={(e) => setEffectiveFrom(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={!randPerPoint || scheduleMutation.isPending}>
+                  Save Rate
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rate History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rand per point</TableHead>
+                <TableHead>Effective from</TableHead>
+                <TableHead>Set by</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map((rate) => {
+                const scheduled = new Date(rate.effectiveFrom).getTime() > now;
+                return (
+                  <TableRow key={rate.id}>
+                    <TableCell className="font-medium">R{Number(rate.randPerPoint)}</TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(rate.effectiveFrom).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {rate.creator.firstName} {rate.creator.lastName}
+                    </TableCell>
+                    <TableCell>
+                      {scheduled ? (
+                        <Badge variant="secondary">Scheduled</Badge>
+                      ) : rate.id === liveRateId ? (
+                        <Badge>Live</Badge>
+                      ) : (
+                        <Badge variant="outline">Superseded</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {canEdit && scheduled && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => cancelMutation.mutate(rate.id)}
+                          disabled={cancelMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Cancel
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {rates.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-4">
+                    No rates set yet. The programme default applies.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
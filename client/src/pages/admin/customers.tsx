@@ -8,7 +8,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
-import { Pencil, Power, PowerOff, TrendingUp, Plus, Package, MoreHorizontal, Download, Upload } from "lucide-react";
+import { Pencil, Power, PowerOff, TrendingUp, Plus, Package, MoreHorizontal, Download, Upload, History } from "lucide-react";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -16,22 +16,16 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import cn from 'classnames';
+import TierBadge from "@/components/shared/tier-badge";
+import TierTimeline from "@/components/shared/tier-timeline";
 
-const getPointsMultiplier = (points: number, type: 'premium' | 'card' | 'pos'): number => {
-  if (points >= 150000) { // Platinum
-    return type === 'pos' ? 2.5 : type === 'premium' ? 2.5 : 0.5;
-  }
-  if (points >= 100000) { // Gold
-    return type === 'pos' ? 2.0 : type === 'premium' ? 2.0 : 0.25;
-  }
-  if (points >= 50000) { // Purple
-    return type === 'pos' ? 1.5 : type === 'premium' ? 1.5 : 0.10;
-  }
-  if (points >= 10000) { // Silver
-    return type === 'pos' ? 1.0 : type === 'premium' ? 1.0 : 0.05;
-  }
-  return type === 'pos' ? 0 : 0; // Bronze
-};
+type SpendType = "PREMIUM" | "CARD" | "POS";
+
+const MULTIPLIER_FIELDS = {
+  PREMIUM: "premiumMultiplier",
+  CARD: "cardMultiplier",
+  POS: "posMultiplier",
+} as const;
 
 const userSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -42,50 +36,19 @@ const userSchema = z.object({
 });
 
 const pointsSchema = z.object({
-  points: z.number().min(1, "Points must be greater than 0"),
+  points: z.number().min(0),
   description: z.string().min(1, "Description is required"),
   selectedActivities: z.array(z.number()).optional(),
-  posPoints: z.number().min(0).optional(),
+  spend: z.array(z.object({
+    key: z.string(),
+    spendType: z.enum(["PREMIUM", "CARD", "POS"]),
+    randAmount: z.number().positive(),
+  })).optional(),
 });
 
 type UserFormData = z.infer<typeof userSchema>;
 type PointsFormData = z.infer<typeof pointsSchema>;
 
-const getTierInfo = (points: number): { name: string; color: string; nextTier?: { name: string; pointsNeeded: number } } => {
-  if (points >= 150000) {
-    return {
-      name: 'Platinum',
-      color: 'bg-gradient-to-r from-purple-400 to-gray-300 text-white'
-    };
-  }
-  if (points >= 100000) {
-    return {
-      name: 'Gold',
-      color: 'bg-yellow-500 text-white',
-      nextTier: { name: 'Platinum', pointsNeeded: 150000 - points }
-    };
-  }
-  if (points >= 50000) {
-    return {
-      name: 'Purple',
-      color: 'bg-purple-500 text-white',
-      nextTier: { name: 'Gold', pointsNeeded: 100000 - points }
-    };
-  }
-  if (points >= 10000) {
-    return {
-      name: 'Silver',
-      color: 'bg-gray-400 text-white',
-      nextTier: { name: 'Purple', pointsNeeded: 50000 - points }
-    };
-  }
-  return {
-    name: 'Bronze',
-    color: 'bg-amber-600 text-white',
-    nextTier: { name: 'Silver', pointsNeeded: 10000 - points }
-  };
-};
-
 export default function AdminCustomers() {
   const { data: customers } = useQuery({
     queryKey: ["/api/admin/customers"],
@@ -119,6 +82,16 @@ export default function AdminCustomers() {
     }
   });
 
+  const { data: tiers = [] } = useQuery<any[]>({
+    queryKey: ["/api/tiers"],
+  });
+
+  // Only used to preview the award; the server applies the multiplier
+  const getEarnMultiplier = (tierId: number, spendType: SpendType): number => {
+    const tier = tiers.find((t) => t.id === tierId);
+    return tier ? tier[MULTIPLIER_FIELDS[spendType]] : 0;
+  };
+
   const { toast } = useToast();
 
   const form = useForm<UserFormData>({
@@ -138,10 +111,24 @@ export default function AdminCustomers() {
       points: 0,
       description: "",
       selectedActivities: [],
-      posPoints: 0,
+      spend: [],
     },
   });
 
+  const getSpendAmount = (key: string) =>
+    pointsForm.watch("spend")?.find((item) => item.key === key)?.randAmount || 0;
+
+  const setSpendAmount = (key: string, spendType: SpendType, randAmount: number) => {
+    const others = (pointsForm.getValues("spend") || []).filter((item) => item.key !== key);
+    pointsForm.setValue("spend", randAmount > 0 ? [...others, { key, spendType, randAmount }] : others);
+  };
+
+  const estimateSpendPoints = (tierId: number) =>
+    (pointsForm.watch("spend") || []).reduce(
+      (total, item) => total + Math.floor(item.randAmount * getEarnMultiplier(tierId, item.spendType)),
+      0
+    );
+
 
   const updateUserMutation = useMutation({
     mutationFn: async ({ userId, data }: { userId: number, data: UserFormData }) => {
@@ -181,6 +168,7 @@ export default function AdminCustomers() {
           userId,
           points: data.points,
           description: data.description,
+          spend: data.spend?.map(({ spendType, randAmount }) => ({ spendType, randAmount })),
         }),
       });
       if (!res.ok) throw new Error(await res.text());
@@ -377,6 +365,7 @@ export default function AdminCustomers() {
                 <TableHead>Phone</TableHead>
                 <TableHead>Tier</TableHead>
                 <TableHead>Points</TableHead>
+                <TableHead>Qualifying Points</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Assigned Products</TableHead>
                 <TableHead>Actions</TableHead>
@@ -384,7 +373,7 @@ export default function AdminCustomers() {
             </TableHeader>
             <TableBody>
               {customers?.map((customer: any) => {
-                const tierInfo = getTierInfo(customer.points);
+                const tierInfo = customer.tier;
                 return (
                   <TableRow
                     key={customer.id}
@@ -397,17 +386,16 @@ export default function AdminCustomers() {
                     <TableCell>{customer.phoneNumber}</TableCell>
                     <TableCell>
                       <div className="space-y-1">
-                        <Badge className={`${tierInfo.color}`}>
-                          {tierInfo.name}
-                        </Badge>
+                        <TierBadge tier={tierInfo} />
                         {tierInfo.nextTier && (
                           <p className="text-xs text-muted-foreground">
-                            {tierInfo.nextTier.pointsNeeded.toLocaleString()} points to {tierInfo.nextTier.name}
+                            {tierInfo.nextTier.pointsNeeded.toLocaleString()} qualifying points to {tierInfo.nextTier.name}
                           </p>
                         )}
                       </div>
                     </TableCell>
                     <TableCell>{customer.points.toLocaleString()}</TableCell>
+                    <TableCell>{customer.qualifyingPoints.toLocaleString()}</TableCell>
                     <TableCell>
                       <span className={`px-2 py-1 rounded-full text-xs ${
                         customer.isEnabled ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
@@ -521,6 +509,25 @@ export default function AdminCustomers() {
                                 </div>
                               </DialogContent>
                             </Dialog>
+                            <Dialog>
+                              <DialogTrigger asChild>
+                                <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+                                  <History className="mr-2 h-4 w-4" />
+                                  Tier History
+                                </DropdownMenuItem>
+                              </DialogTrigger>
+                              <DialogContent className="bg-[#011d3d] border-[#022b5c] text-white">
+                                <DialogHeader>
+                                  <DialogTitle className="text-[#43EB3E]">Tier History for {customer.firstName}</DialogTitle>
+                                </DialogHeader>
+                                <ScrollArea className="max-h-[400px] pr-4">
+                                  <TierTimeline
+                                    source={`/api/admin/customers/${customer.id}/tier-history`}
+                                    currentTier={customer.tier.name}
+                                  />
+                                </ScrollArea>
+                              </DialogContent>
+                            </Dialog>
                             <Dialog>
                               <DialogTrigger asChild>
                                 <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
@@ -533,12 +540,10 @@ export default function AdminCustomers() {
                                   <DialogTitle className="text-[#43EB3E]">Assign Points to {customer.firstName}</DialogTitle>
                                   <div className="flex items-center gap-2 mt-2">
                                     <span className="text-sm text-muted-foreground">Current Tier:</span>
-                                    <Badge className={`${getTierInfo(customer.points).color}`}>
-                                      {getTierInfo(customer.points).name}
-                                    </Badge>
-                                    {getTierInfo(customer.points).nextTier && (
+                                    <TierBadge tier={customer.tier} />
+                                    {customer.tier.nextTier && (
                                       <span className="text-xs text-muted-foreground">
-                                        ({getTierInfo(customer.points).nextTier?.pointsNeeded.toLocaleString()} points to {getTierInfo(customer.points).nextTier?.name})
+                                        ({customer.tier.nextTier.pointsNeeded.toLocaleString()} points to {customer.tier.nextTier.name})
                                       </span>
                                     )}
                                   </div>
@@ -577,8 +582,9 @@ export default function AdminCustomers() {
                                                     if (isSystemActivity) return null;
 
                                                     const isPremiumOrCard = activity.type === "PREMIUM_PAYMENT" || activity.type === "CARD_BALANCE";
-                                                    const multiplierType = activity.type === "PREMIUM_PAYMENT" ? 'premium' : 'card';
-                                                    const pointsMultiplier = getPointsMultiplier(customer.points, multiplierType);
+                                                    const spendType: SpendType = activity.type === "PREMIUM_PAYMENT" ? "PREMIUM" : "CARD";
+                                                    const spendKey = `activity-${activity.id}`;
+                                                    const pointsMultiplier = getEarnMultiplier(customer.tier.id, spendType);
 
                                                     return (
                                                       <div
@@ -612,10 +618,7 @@ export default function AdminCustomers() {
                                                                 if (!isPremiumOrCard) {
                                                                   pointsForm.setValue("points", currentPoints - activity.pointsValue);
                                                                 } else {
-                                                                  const oldValue = activity.currentValue || 0;
-                                                                  pointsForm.setValue("points", currentPoints - oldValue);
-                                                                  activity.currentValue = 0;
-                                                                  activity.baseValue = 0;
+                                                                  setSpendAmount(spendKey, spendType, 0);
                                                                 }
                                                               }
                                                             }}
@@ -636,22 +639,17 @@ export default function AdminCustomers() {
                                                           <div className="flex items-center space-x-2">
                                                             <Input
                                                               type="number"
+                                                              min="0"
+                                                              step="0.01"
                                                               className="w-32"
-                                                              placeholder="Enter points"
+                                                              placeholder="Rand amount"
                                                               disabled={!pointsForm.watch("selectedActivities")?.includes(activity.id)}
-                                                              onChange={(e) => {
-                                                                const baseValue = parseInt(e.target.value) || 0;
-                                                                const multipliedValue = Math.floor(baseValue * pointsMultiplier);
-                                                                const currentPoints = pointsForm.getValues("points") || 0;
-                                                                const oldValue = activity.currentValue || 0;
-                                                                pointsForm.setValue("points", currentPoints - oldValue + multipliedValue);
-                                                                activity.currentValue = multipliedValue;
-                                                                activity.baseValue = baseValue;
-                                                              }}
+                                                              value={getSpendAmount(spendKey) || ""}
+                                                              onChange={(e) => setSpendAmount(spendKey, spendType, parseFloat(e.target.value) || 0)}
                                                             />
                                                             {pointsMultiplier > 0 && (
                                                               <span className="text-sm text-muted-foreground">
-                                                                = {activity.currentValue || 0} points
+                                                                ≈ {Math.floor(getSpendAmount(spendKey) * pointsMultiplier)} points
                                                               </span>
                                                             )}
                                                           </div>
@@ -672,14 +670,14 @@ export default function AdminCustomers() {
                                     </ScrollArea>
 
                                     <div className="pt-4 border-t">
-                                      <h3 className="text-lg font-semibold mb-4">POS Points Allocation</h3>
+                                      <h3 className="text-lg font-semibold mb-4">POS Spend</h3>
                                       <div className="space-y-4">
                                         <div className="space-y-2">
                                           <label className="text-sm font-medium">
-                                            POS Points
-                                            {getPointsMultiplier(customer.points, 'pos') > 0 && (
+                                            POS Spend
+                                            {getEarnMultiplier(customer.tier.id, "POS") > 0 && (
                                               <span className="ml-2 text-xs text-muted-foreground">
-                                                (×{getPointsMultiplier(customer.points, 'pos')})
+                                                (×{getEarnMultiplier(customer.tier.id, "POS")})
                                               </span>
                                             )}
                                           </label>
@@ -687,21 +685,14 @@ export default function AdminCustomers() {
                                             <Input
                                               type="number"
                                               min="0"
-                                              placeholder="Enter POS points"
-                                              onChange={(e) => {
-                                                const baseValue = parseInt(e.target.value) || 0;
-                                                const multiplier = getPointsMultiplier(customer.points, 'pos');
-                                                const multipliedValue = Math.floor(baseValue * multiplier);
-                                                const currentPoints = pointsForm.getValues("points") || 0;
-                                                const oldPosPoints = pointsForm.getValues("posPoints") || 0;
-                                                pointsForm.setValue("points", currentPoints - oldPosPoints + multipliedValue);
-                                                pointsForm.setValue("posPoints", multipliedValue);
-                                                pointsForm.setValue("posBaseValue", baseValue);
-                                              }}
+                                              step="0.01"
+                                              placeholder="Rand amount"
+                                              value={getSpendAmount("pos") || ""}
+                                              onChange={(e) => setSpendAmount("pos", "POS", parseFloat(e.target.value) || 0)}
                                             />
-                                            {getPointsMultiplier(customer.points, 'pos') > 0 && (
+                                            {getEarnMultiplier(customer.tier.id, "POS") > 0 && (
                                               <span className="text-sm text-muted-foreground">
-                                                = {pointsForm.watch("posPoints") || 0} points
+                                                ≈ {Math.floor(getSpendAmount("pos") * getEarnMultiplier(customer.tier.id, "POS"))} points
                                               </span>
                                             )}
                                           </div>
@@ -725,36 +716,43 @@ export default function AdminCustomers() {
                                                     {assignment.product.name} - {activity.type.replace('_', ' ')}
                                                     {(activity.type === "PREMIUM_PAYMENT" || activity.type === "CARD_BALANCE") && (
                                                       <span className="text-xs text-muted-foreground ml-1">
-                                                        (Base: {activity.baseValue || 0})
+                                                        (R{getSpendAmount(`activity-${activity.id}`).toFixed(2)})
                                                       </span>
                                                     )}
                                                   </span>
                                                   <span className="font-medium">
-                                                    {activity.currentValue || activity.pointsValue} points
+                                                    {activity.type === "PREMIUM_PAYMENT" || activity.type === "CARD_BALANCE"
+                                                      ? `≈ ${Math.floor(getSpendAmount(`activity-${activity.id}`) * getEarnMultiplier(customer.tier.id, activity.type === "PREMIUM_PAYMENT" ? "PREMIUM" : "CARD"))}`
+                                                      : activity.pointsValue} points
                                                   </span>
                                                 </div>
                                               ))}
                                           </div>
                                         ))}
 
-                                        {pointsForm.watch("posPoints") > 0 && (
+                                        {getSpendAmount("pos") > 0 && (
                                           <div className="flex justify-between items-center py-2 border-t">
                                             <span className="text-sm">
-                                              POS Points
+                                              POS Spend
                                               <span className="text-xs text-muted-foreground ml-1">
-                                                (Base: {pointsForm.watch("posBaseValue") || 0})
+                                                (R{getSpendAmount("pos").toFixed(2)})
                                               </span>
                                             </span>
-                                            <span className="font-medium">{pointsForm.watch("posPoints")} points</span>
+                                            <span className="font-medium">
+                                              ≈ {Math.floor(getSpendAmount("pos") * getEarnMultiplier(customer.tier.id, "POS"))} points
+                                            </span>
                                           </div>
                                         )}
 
                                         <div className="flex justify-between items-center pt-4 border-t border-t-2">
                                           <span className="font-semibold">Total Points</span>
                                           <span className="text-2xl font-bold">
-                                            {pointsForm.watch("points")}
+                                            {pointsForm.watch("points") + estimateSpendPoints(customer.tier.id)}
                                           </span>
                                         </div>
+                                        <p className="text-xs text-muted-foreground">
+                                          Spend points are calculated at the customer's tier rate when assigned.
+                                        </p>
                                       </div>
 
                                       <div className="space-y-2">
@@ -773,7 +771,7 @@ export default function AdminCustomers() {
                                       <Button
                                         type="submit"
                                         className="w-full"
-                                        disabled={!pointsForm.watch("points") || !pointsForm.watch("description")}
+                                        disabled={(!pointsForm.watch("points") && !pointsForm.watch("spend")?.length) || !pointsForm.watch("description")}
                                         onClick={(e) => {
                                           e.preventDefault();
                                           const formData = pointsForm.getValues();
@@ -790,12 +788,13 @@ export default function AdminCustomers() {
                                             data: {
                                               points: formData.points,
                                               description: formData.description,
-                                              selectedActivities: formData.selectedActivities
+                                              selectedActivities: formData.selectedActivities,
+                                              spend: formData.spend
                                             }
                                           });
                                         }}
                                       >
-                                        Assign {pointsForm.watch("points")} Points
+                                        Assign {pointsForm.watch("points") + estimateSpendPoints(customer.tier.id)} Points
                                       </Button>
                                     </div>
                                   </div>
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCw } from "lucide-react";
+
+type EmailStatus = "PENDING" | "SENT" | "FAILED";
+
+type OutboxEmail = {
+  id: number;
+  to: string;
+  subject: string;
+  status: EmailStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  sentAt: string | null;
+  createdAt: string;
+  user: {
+    firstName: string;
+    lastName: string;
+  } | null;
+};
+
+const STATUS_VARIANTS: Record<EmailStatus, "default" | "secondary" | "destructive"> = {
+  PENDING: "secondary",
+  SENT: "default",
+  FAILED: "destructive",
+};
+
+export default function EmailOutbox() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<string>("all");
+
+  const outboxUrl = status === "all" ? "/api/admin/email-outbox" : `/api/admin/email-outbox?status=${status}`;
+  const { data: emails = [] } = useQuery<OutboxEmail[]>({
+    queryKey: [outboxUrl],
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/admin/email-outbox/${id}/resend`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/email-outbox"),
+      });
+      toast({
+        title: "Success",
+        description: "Email queued for resending",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Email Outbox</h1>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Filter by status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Emails</SelectItem>
+            <SelectItem value="PENDING">Pending</SelectItem>
+            <SelectItem value="FAILED">Failed</SelectItem>
+            <SelectItem value="SENT">Sent</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Outgoing Emails</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queued</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Last Error</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {emails.map((email) => (
+                <TableRow key={email.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(email.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-col">
+                      {email.user && (
+                        <span className="font-medium">
+                          {email.user.firstName} {email.user.lastName}
+                        </span>
+                      )}
+                      <span className="text-sm text-muted-foreground">{email.to}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>{email.subject}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col gap-1">
+                      <Badge variant={STATUS_VARIANTS[email.status]} className="w-fit">
+                        {email.status}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {email.status === "SENT" && email.sentAt
+                          ? `Sent ${new Date(email.sentAt).toLocaleString()}`
+                          : email.status === "PENDING"
+                            ? `Next try ${new Date(email.nextAttemptAt).toLocaleString()}`
+                            : null}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell>{email.attempts}</TableCell>
+                  <TableCell className="max-w-xs truncate text-sm text-muted-foreground" title={email.lastError || undefined}>
+                    {email.lastError || "-"}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => resendMutation.mutate(email.id)}
+                      disabled={resendMutation.isPending}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      {email.status === "PENDING" ? "Retry Now" : "Resend"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {emails.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-4">
+                    No emails found for the selected status
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
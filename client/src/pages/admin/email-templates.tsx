@@ -0,0 +1,300 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useUser } from "@/hooks/use-user";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, History, Loader2 } from "lucide-react";
+
+type TemplateContent = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+type EmailTemplate = TemplateContent & {
+  key: string;
+  label: string;
+  variables: string[];
+  version: number;
+  updatedAt: string | null;
+};
+
+type TemplateVersion = TemplateContent & {
+  id: number;
+  version: number;
+  createdAt: string;
+  author: { firstName: string; lastName: string } | null;
+};
+
+type TemplatePreview = TemplateContent & {
+  unknownVariables: string[];
+};
+
+const PREVIEW_DELAY = 300;
+
+export default function EmailTemplates() {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const canEdit = !!user?.isSuperAdmin;
+
+  const [selectedKey, setSelectedKey] = useState<string>();
+  const [draft, setDraft] = useState<TemplateContent | null>(null);
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+
+  const { data: templates = [] } = useQuery<EmailTemplate[]>({
+    queryKey: ["/api/admin/email-templates"],
+  });
+
+  const selected = templates.find((template) => template.key === selectedKey) ?? templates[0];
+
+  const { data: versions = [] } = useQuery<TemplateVersion[]>({
+    queryKey: [`/api/admin/email-templates/${selected?.key}/versions`],
+    enabled: !!selected,
+  });
+
+  // Start editing from the current version whenever the template changes
+  useEffect(() => {
+    if (selected) {
+      setDraft({ subject: selected.subject, text: selected.text, html: selected.html });
+    }
+  }, [selected?.key, selected?.version]);
+
+  // Re-render the preview from sample data shortly after typing stops
+  useEffect(() => {
+    if (!selected || !draft) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/admin/email-templates/${selected.key}/preview`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(draft),
+        });
+        if (res.ok) setPreview(await res.json());
+      } catch (error) {
+        console.error('Error previewing email template:', error);
+      }
+    }, PREVIEW_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [selected?.key, draft]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (content: TemplateContent) => {
+      const res = await fetch(`/api/admin/email-templates/${selected.key}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(content),
+      });
+      if (!res.ok) {
+        const body = await res.text();
+        let message = body;
+        try {
+          message = JSON.parse(body).error ?? body;
+        } catch {
+          // Plain text error
+        }
+        throw new Error(message);
+      }
+      return res.json();
+    },
+    onSuccess: (saved: TemplateVersion) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-templates"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/email-templates/${selected.key}/versions`] });
+      toast({
+        title: "Success",
+        description: `Saved version ${saved.version}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const updateDraft = (field: keyof TemplateContent, value: string) => {
+    setDraft((current) => current && { ...current, [field]: value });
+  };
+
+  const isDirty = !!selected && !!draft && (
+    draft.subject !== selected.subject || draft.text !== selected.text || draft.html !== selected.html
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Email Templates</h1>
+        <Select value={selected?.key} onValueChange={setSelectedKey}>
+          <SelectTrigger className="w-[280px]">
+            <SelectValue placeholder="Choose a template" />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((template) => (
+              <SelectItem key={template.key} value={template.key}>
+                {template.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {selected && draft && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>{selected.label}</CardTitle>
+              <CardDescription>
+                {selected.version === 0 ? "Using the built-in template" : `Version ${selected.version}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Variables</p>
+                <div className="flex flex-wrap gap-2">
+                  {selected.variables.map((variable) => (
+                    <code key={variable} className="rounded bg-muted px-2 py-1 text-xs">
+                      {`{{${variable}}}`}
+                    </code>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Subject</label>
+                <Input
+                  value={draft.subject}
+                  onChange={(e) => updateDraft("subject", e.target.value)}
+                  disabled={!canEdit}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Plain text</label>
+                <Textarea
+                  value={draft.text}
+                  onChange={(e) => updateDraft("text", e.target.value)}
+                  className="min-h-[160px] font-mono text-sm"
+                  disabled={!canEdit}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">HTML</label>
+                <Textarea
+                  value={draft.html}
+                  onChange={(e) => updateDraft("html", e.target.value)}
+                  className="min-h-[240px] font-mono text-sm"
+                  disabled={!canEdit}
+                />
+              </div>
+              {canEdit && (
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    disabled={!isDirty || saveMutation.isPending}
+                    onClick={() => setDraft({ subject: selected.subject, text: selected.text, html: selected.html })}
+                  >
+                    Discard Changes
+                  </Button>
+                  <Button
+                    disabled={!isDirty || saveMutation.isPending || !!preview?.unknownVariables.length}
+                    onClick={() => saveMutation.mutate(draft)}
+                  >
+                    {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Save New Version
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>Rendered with sample data</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {preview?.unknownVariables.length ? (
+                  <div className="flex items-start gap-2 rounded-lg border border-amber-500 p-3 text-sm text-amber-600">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>Unknown variables: {preview.unknownVariables.join(", ")}</span>
+                  </div>
+                ) : null}
+                <p className="text-sm">
+                  <span className="font-medium">Subject:</span> {preview?.subject}
+                </p>
+                <Tabs defaultValue="html">
+                  <TabsList>
+                    <TabsTrigger value="html">HTML</TabsTrigger>
+                    <TabsTrigger value="text">Plain text</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="html">
+                    <iframe
+                      title="Email preview"
+                      sandbox=""
+                      srcDoc={preview?.html ?? ""}
+                      className="w-full h-[400px] rounded-lg border bg-white"
+                    />
+                  </TabsContent>
+                  <TabsContent value="text">
+                    <pre className="whitespace-pre-wrap rounded-lg border p-4 text-sm">{preview?.text}</pre>
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Version History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {versions.map((version) => (
+                    <div key={version.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium">
+                          Version {version.version}
+                          {version.version === selected.version && (
+                            <span className="ml-2 text-xs text-muted-foreground">(current)</span>
+                          )}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {new Date(version.createdAt).toLocaleString()}
+                          {version.author && ` by ${version.author.firstName} ${version.author.lastName}`}
+                        </p>
+                      </div>
+                      {canEdit && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setDraft({ subject: version.subject, text: version.text, html: version.html })}
+                        >
+                          <History className="h-4 w-4 mr-2" />
+                          Load
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                  {versions.length === 0 && (
+                    <p className="text-center text-muted-foreground py-4">
+                      No saved versions yet
+                    </p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { formatDeliveryAddress, type DeliveryAddress } from "@/components/shared/delivery-address-card";
+import {
+  FULFILMENT_STATUS_LABELS,
+  FULFILMENT_STATUS_VARIANTS,
+  type FulfilmentStatus,
+} from "@/components/shared/reward-card";
+import { Truck, PackageCheck, XCircle } from "lucide-react";
+
+type FulfilmentAction = "ship" | "deliver" | "cancel";
+
+type Person = {
+  firstName: string;
+  lastName: string;
+};
+
+type Fulfilment = {
+  id: number;
+  status: FulfilmentStatus;
+  deliveryAddress: DeliveryAddress;
+  courier: string | null;
+  trackingNumber: string | null;
+  cancellationReason: string | null;
+  shippedAt: string | null;
+  deliveredAt: string | null;
+  cancelledAt: string | null;
+  createdAt: string;
+  user: Person & { email: string; phoneNumber: string };
+  reward: { id: number; name: string; pointsCost: number };
+  updater: Person | null;
+};
+
+async function postJson(url: string, body?: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body ?? {}),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text;
+    try {
+      const parsed = JSON.parse(text);
+      message = parsed.details?.[0]?.message ?? parsed.error ?? text;
+    } catch {
+      // Plain text error
+    }
+    throw new Error(message);
+  }
+  return response.json();
+}
+
+export default function Fulfilments() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<string>("ORDERED");
+  const [shipping, setShipping] = useState<Fulfilment | null>(null);
+  const [cancelling, setCancelling] = useState<Fulfilment | null>(null);
+  const [courier, setCourier] = useState("");
+  const [trackingNumber, setTrackingNumber] = useState("");
+  const [reason, setReason] = useState("");
+
+  const fulfilmentsUrl = status === "all" ? "/api/admin/fulfilments" : `/api/admin/fulfilments?status=${status}`;
+  const { data: fulfilments = [] } = useQuery<Fulfilment[]>({
+    queryKey: [fulfilmentsUrl],
+  });
+
+  const closeDialogs = () => {
+    setShipping(null);
+    setCancelling(null);
+    setCourier("");
+    setTrackingNumber("");
+    setReason("");
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, action, body }: { id: number; action: FulfilmentAction; body?: unknown }) =>
+      postJson(`/api/admin/fulfilments/${id}/${action}`, body),
+    onSuccess: (fulfilment: Fulfilment) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/fulfilments"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/rewards"] });
+      closeDialogs();
+      toast({
+        title: "Success",
+        description: `Order #${fulfilment.id} ${FULFILMENT_STATUS_LABELS[fulfilment.status].toLowerCase()}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const canCancel = (fulfilment: Fulfilment) =>
+    fulfilment.status === "ORDERED" || fulfilment.status === "SHIPPED";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Fulfilment</h1>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Filter by status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Orders</SelectItem>
+            {(Object.keys(FULFILMENT_STATUS_LABELS) as FulfilmentStatus[]).map((value) => (
+              <SelectItem key={value} value={value}>{FULFILMENT_STATUS_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Physical Reward Orders</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ScrollArea className="h-[600px]">
+            <div className="space-y-4">
+              {fulfilments.map((fulfilment) => (
+                <div
+                  key={fulfilment.id}
+                  className="flex items-center justify-between p-4 border rounded-lg"
+                >
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      #{fulfilment.id} {fulfilment.reward.name}
+                    </p>
+                    <p className="text-sm">
+                      {fulfilment.user.firstName} {fulfilment.user.lastName} · {fulfilment.user.email} · {fulfilment.user.phoneNumber}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDeliveryAddress(fulfilment.deliveryAddress)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Ordered {new Date(fulfilment.createdAt).toLocaleString()}
+                    </p>
+                    {fulfilment.shippedAt && (
+                      <p className="text-sm text-muted-foreground">
+                        Shipped {new Date(fulfilment.shippedAt).toLocaleString()} with {fulfilment.courier}, tracking {fulfilment.trackingNumber}
+                      </p>
+                    )}
+                    {fulfilment.deliveredAt && (
+                      <p className="text-sm text-muted-foreground">
+                        Delivered {new Date(fulfilment.deliveredAt).toLocaleString()}
+                      </p>
+                    )}
+                    {fulfilment.cancellationReason && (
+                      <p className="text-sm text-red-500">
+                        Cancelled: {fulfilment.cancellationReason}
+                      </p>
+                    )}
+                    {fulfilment.updater && (
+                      <p className="text-sm text-muted-foreground">
+                        Last updated by {fulfilment.updater.firstName} {fulfilment.updater.lastName}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right space-y-2">
+                    <Badge variant={FULFILMENT_STATUS_VARIANTS[fulfilment.status]}>
+                      {FULFILMENT_STATUS_LABELS[fulfilment.status]}
+                    </Badge>
+                    <div className="flex justify-end gap-2">
+                      {fulfilment.status === "ORDERED" && (
+                        <Button
+                          size="sm"
+                          onClick={() => setShipping(fulfilment)}
+                          disabled={updateMutation.isPending}
+                        >
+                          <Truck className="h-4 w-4 mr-2" />
+                          Ship
+                        </Button>
+                      )}
+                      {fulfilment.status === "SHIPPED" && (
+                        <Button
+                          size="sm"
+                          onClick={() => updateMutation.mutate({ id: fulfilment.id, action: "deliver" })}
+                          disabled={updateMutation.isPending}
+                        >
+                          <PackageCheck className="h-4 w-4 mr-2" />
+                          Mark Delivered
+                        </Button>
+                      )}
+                      {canCancel(fulfilment) && (
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => setCancelling(fulfilment)}
+                          disabled={updateMutation.isPending}
+                        >
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+              {fulfilments.length === 0 && (
+                <p className="text-center text-muted-foreground py-4">
+                  No orders found
+                </p>
+              )}
+            </div>
+          </ScrollArea>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!shipping} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ship Order</DialogTitle>
+          </DialogHeader>
+          {shipping && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {shipping.reward.name} to {shipping.user.firstName} {shipping.user.lastName}, {formatDeliveryAddress(shipping.deliveryAddress)}.
+                The customer is emailed the tracking number.
+              </p>
+              <Input
+                placeholder="Courier"
+                value={courier}
+                onChange={(e) => setCourier(e.target.value)}
+              />
+              <Input
+                placeholder="Tracking number"
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialogs}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!courier.trim() || !trackingNumber.trim() || updateMutation.isPending}
+              onClick={() => shipping && updateMutation.mutate({
+                id: shipping.id,
+                action: "ship",
+                body: { courier, trackingNumber },
+              })}
+            >
+              Mark as Shipped
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!cancelling} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Order</DialogTitle>
+          </DialogHeader>
+          {cancelling && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                The points {cancelling.user.firstName} {cancelling.user.lastName} spent on {cancelling.reward.name} will be refunded and the item returned to stock.
+              </p>
+              <Textarea
+                placeholder="Reason for cancelling"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialogs}>
+              Keep Order
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || updateMutation.isPending}
+              onClick={() => cancelling && updateMutation.mutate({ id: cancelling.id, action: "cancel", body: { reason } })}
+            >
+              Cancel and Refund
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { AlertCircle, Shield, UserMinus, Coins, Gift, Package, Power, PowerOff } from "lucide-react";
+import { AlertCircle, Shield, UserMinus, Coins, Gift, Package, Power, PowerOff, Award, Mail, DollarSign, Landmark, Eye, Layers, Download, Ticket, Truck } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 
@@ -19,7 +19,27 @@ type AdminLog = {
     | "PRODUCT_UPDATED"
     | "PRODUCT_DELETED"
     | "PRODUCT_ASSIGNED"
-    | "PRODUCT_UNASSIGNED";
+    | "PRODUCT_UNASSIGNED"
+    | "TIER_CREATED"
+    | "TIER_UPDATED"
+    | "TIER_DELETED"
+    | "EMAIL_RESENT"
+    | "EMAIL_TEMPLATE_UPDATED"
+    | "CASH_REDEMPTION_APPROVED"
+    | "CASH_REDEMPTION_REJECTED"
+    | "CASH_REDEMPTION_PAID"
+    | "PAYOUT_ACCOUNT_VERIFIED"
+    | "PAYOUT_ACCOUNT_REJECTED"
+    | "PAYOUT_ACCOUNT_REVEALED"
+    | "PAYOUT_BATCH_CREATED"
+    | "PAYOUT_BATCH_EXPORTED"
+    | "PAYOUT_BATCH_PAID"
+    | "CONVERSION_RATE_SCHEDULED"
+    | "CONVERSION_RATE_CANCELLED"
+    | "VOUCHER_CODES_UPLOADED"
+    | "FULFILMENT_SHIPPED"
+    | "FULFILMENT_DELIVERED"
+    | "FULFILMENT_CANCELLED";
   details: string;
   createdAt: string;
   admin: { 
@@ -54,6 +74,42 @@ const getActionIcon = (actionType: string) => {
       return <Power className="h-4 w-4 text-green-500" />;
     case "PRODUCT_UNASSIGNED":
       return <PowerOff className="h-4 w-4 text-red-500" />;
+    case "TIER_CREATED":
+    case "TIER_UPDATED":
+    case "TIER_DELETED":
+      return <Award className="h-4 w-4 text-amber-500" />;
+    case "EMAIL_RESENT":
+    case "EMAIL_TEMPLATE_UPDATED":
+      return <Mail className="h-4 w-4 text-blue-500" />;
+    case "CASH_REDEMPTION_APPROVED":
+    case "CASH_REDEMPTION_PAID":
+      return <DollarSign className="h-4 w-4 text-green-500" />;
+    case "CASH_REDEMPTION_REJECTED":
+      return <DollarSign className="h-4 w-4 text-red-500" />;
+    case "PAYOUT_ACCOUNT_VERIFIED":
+      return <Landmark className="h-4 w-4 text-green-500" />;
+    case "PAYOUT_ACCOUNT_REJECTED":
+      return <Landmark className="h-4 w-4 text-red-500" />;
+    case "PAYOUT_ACCOUNT_REVEALED":
+      return <Eye className="h-4 w-4 text-amber-500" />;
+    case "PAYOUT_BATCH_CREATED":
+      return <Layers className="h-4 w-4 text-blue-500" />;
+    case "PAYOUT_BATCH_EXPORTED":
+      return <Download className="h-4 w-4 text-amber-500" />;
+    case "PAYOUT_BATCH_PAID":
+      return <Layers className="h-4 w-4 text-green-500" />;
+    case "CONVERSION_RATE_SCHEDULED":
+      return <Coins className="h-4 w-4 text-blue-500" />;
+    case "CONVERSION_RATE_CANCELLED":
+      return <Coins className="h-4 w-4 text-red-500" />;
+    case "VOUCHER_CODES_UPLOADED":
+      return <Ticket className="h-4 w-4 text-purple-500" />;
+    case "FULFILMENT_SHIPPED":
+      return <Truck className="h-4 w-4 text-blue-500" />;
+    case "FULFILMENT_DELIVERED":
+      return <Truck className="h-4 w-4 text-green-500" />;
+    case "FULFILMENT_CANCELLED":
+      return <Truck className="h-4 w-4 text-red-500" />;
     default:
       return <AlertCircle className="h-4 w-4 text-gray-500" />;
   }
@@ -64,6 +120,14 @@ const getActionCategory = (actionType: string) => {
   if (actionType.startsWith("ADMIN")) return "Admin";
   if (actionType.startsWith("REWARD")) return "Rewards";
   if (actionType.startsWith("PRODUCT")) return "Products";
+  if (actionType.startsWith("TIER")) return "Tiers";
+  if (actionType.startsWith("EMAIL")) return "Emails";
+  if (actionType.startsWith("CASH")) return "Cash Redemptions";
+  if (actionType.startsWith("PAYOUT_ACCOUNT")) return "Payout Accounts";
+  if (actionType.startsWith("PAYOUT_BATCH")) return "Payout Batches";
+  if (actionType.startsWith("CONVERSION")) return "Conversion Rate";
+  if (actionType.startsWith("VOUCHER")) return "Voucher Codes";
+  if (actionType.startsWith("FULFILMENT")) return "Fulfilment";
   return "Other";
 };
 
@@ -96,6 +160,14 @@ export default function AdminLogs() {
               <SelectItem value="Admin">Admin</SelectItem>
               <SelectItem value="Rewards">Rewards</SelectItem>
               <SelectItem value="Products">Products</SelectItem>
+              <SelectItem value="Tiers">Tiers</SelectItem>
+              <SelectItem value="Emails">Emails</SelectItem>
+              <SelectItem value="Cash Redemptions">Cash Redemptions</SelectItem>
+              <SelectItem value="Payout Accounts">Payout Accounts</SelectItem>
+              <SelectItem value="Payout Batches">Payout Batches</SelectItem>
+              <SelectItem value="Conversion Rate">Conversion Rate</SelectItem>
+              <SelectItem value="Voucher Codes">Voucher Codes</SelectItem>
+              <SelectItem value="Fulfilment">Fulfilment</SelectItem>
             </SelectContent>
           </Select>
           <Button 
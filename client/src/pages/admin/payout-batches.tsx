@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Banknote, Download } from "lucide-react";
+
+type PayoutBatchStatus = "EXPORTED" | "PAID";
+
+type Person = {
+  firstName: string;
+  lastName: string;
+};
+
+type PayoutBatch = {
+  id: number;
+  status: PayoutBatchStatus;
+  redemptionCount: number;
+  totalAmount: string;
+  createdAt: string;
+  paidAt: string | null;
+  creator: Person;
+  payer: Person | null;
+};
+
+async function readError(response: Response) {
+  const body = await response.text();
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
+export default function PayoutBatches() {
+  const { toast } = useToast();
+  const [settling, setSettling] = useState<PayoutBatch | null>(null);
+
+  const { data: batches = [] } = useQuery<PayoutBatch[]>({
+    queryKey: ["/api/admin/payout-batches"],
+  });
+
+  const markPaidMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/admin/payout-batches/${id}/mark-paid`, { method: "POST" });
+      if (!response.ok) throw new Error(await readError(response));
+      return response.json() as Promise<PayoutBatch>;
+    },
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payout-batches"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/cash-redemptions"),
+      });
+      setSettling(null);
+      toast({
+        title: "Success",
+        description: `Batch #${batch.id} marked as paid`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Payout Batches</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Batch History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Batch</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Payments</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map((batch) => (
+                <TableRow key={batch.id}>
+                  <TableCell className="font-medium">#{batch.id}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span className="whitespace-nowrap">{new Date(batch.createdAt).toLocaleString()}</span>
+                      <span className="text-sm text-muted-foreground">
+                        by {batch.creator.firstName} {batch.creator.lastName}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell>{batch.redemptionCount}</TableCell>
+                  <TableCell>R{batch.totalAmount}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col gap-1">
+                      <Badge variant={batch.status === "PAID" ? "default" : "secondary"} className="w-fit">
+                        {batch.status === "PAID" ? "Paid" : "Awaiting payment"}
+                      </Badge>
+                      {batch.payer && batch.paidAt && (
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          Paid {new Date(batch.paidAt).toLocaleString()} by {batch.payer.firstName} {batch.payer.lastName}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" asChild>
+                        <a href={`/api/admin/payout-batches/${batch.id}/export?format=csv`} download>
+                          <Download className="h-4 w-4 mr-2" />
+                          CSV
+                        </a>
+                      </Button>
+                      <Button size="sm" variant="outline" asChild>
+                        <a href={`/api/admin/payout-batches/${batch.id}/export?format=fixed`} download>
+                          <Download className="h-4 w-4 mr-2" />
+                          Fixed Width
+                        </a>
+                      </Button>
+                      {batch.status === "EXPORTED" && (
+                        <Button
+                          size="sm"
+                          onClick={() => setSettling(batch)}
+                          disabled={markPaidMutation.isPending}
+                        >
+                          <Banknote className="h-4 w-4 mr-2" />
+                          Mark as Paid
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {batches.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-4">
+                    No payout batches yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!settling} onOpenChange={(open) => !open && setSettling(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mark batch #{settling?.id} as paid?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {settling?.redemptionCount} cash redemptions in this batch (R{settling?.totalAmount}) will be marked as paid and the customers notified. Only do this once the bank has processed the payments.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => settling && markPaidMutation.mutate(settling.id)}
+              disabled={markPaidMutation.isPending}
+            >
+              Mark as Paid
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
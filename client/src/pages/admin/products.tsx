@@ -7,7 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
-import { Plus, Pencil, Power, PowerOff, Trash2 } from "lucide-react";
+import { Plus, Pencil, Power, PowerOff, Trash2, Upload, Download } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -35,6 +35,25 @@ const productSchema = z.object({
 
 type ProductFormData = z.infer<typeof productSchema>;
 
+type ActivityImportResult = {
+  dryRun: boolean;
+  applied: number;
+  duplicates: number;
+  failed: number;
+  totalPoints: number;
+  resultsCsv?: string;
+  rows: Array<{
+    row: number;
+    customer: string;
+    product: string;
+    type: string;
+    externalRef: string;
+    points: number;
+    status: "applied" | "duplicate" | "error";
+    error?: string;
+  }>;
+};
+
 export default function ProductManagement() {
   const { data: products = [], refetch } = useQuery({
     queryKey: ["/api/products"],
@@ -48,6 +67,9 @@ export default function ProductManagement() {
   const [editingProduct, setEditingProduct] = useState<any>(null);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importResult, setImportResult] = useState<ActivityImportResult | null>(null);
 
   const { toast } = useToast();
   const form = useForm<ProductFormData>({
@@ -185,6 +207,60 @@ export default function ProductManagement() {
     },
   });
 
+  const importActivitiesMutation = useMutation({
+    mutationFn: async ({ file, dryRun }: { file: File; dryRun: boolean }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('dryRun', String(dryRun));
+      const response = await fetch("/api/admin/activities/import", {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      });
+      if (!response.ok) throw new Error(await response.text());
+      return response.json() as Promise<ActivityImportResult>;
+    },
+    onSuccess: (data) => {
+      setImportResult(data);
+      if (!data.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/customers"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/logs"] });
+        toast({
+          title: "Import Complete",
+          description: `Applied ${data.applied} events (${data.totalPoints.toLocaleString()} points). ${data.duplicates} duplicates, ${data.failed} failed.`
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const downloadImportResults = () => {
+    if (!importResult?.resultsCsv) return;
+    const blob = new Blob([importResult.resultsCsv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'activity-import-results.csv';
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  const resetImport = (open: boolean) => {
+    setIsImportOpen(open);
+    if (!open) {
+      setImportFile(null);
+      setImportResult(null);
+    }
+  };
+
   const onEdit = (product: any) => {
     setEditingProduct(product);
     editForm.reset({
@@ -235,78 +311,187 @@ export default function ProductManagement() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold text-white">Product Management</h1>
-        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
-          <DialogTrigger asChild>
-            <Button className="bg-[#43EB3E] hover:bg-[#3AD936] text-black">
-              <Plus className="h-4 w-4 mr-2" />
-              Create Product
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="bg-[#011d3d] border border-[#022b5c] text-white sm:max-w-[425px]">
-            <DialogHeader>
-              <DialogTitle className="text-xl font-semibold text-white">Create New Product</DialogTitle>
-            </DialogHeader>
-            <form
-              onSubmit={form.handleSubmit((data) => createProductMutation.mutate(data))}
-              className="space-y-4"
-            >
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-white">Name</label>
-                <Input
-                  {...form.register("name")}
-                  className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
-                />
-              </div>
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-white">Description</label>
+        <div className="flex gap-2">
+          <Dialog open={isImportOpen} onOpenChange={resetImport}>
+            <DialogTrigger asChild>
+              <Button variant="outline" className="border-[#022b5c] text-white hover:bg-[#022b5c]">
+                <Upload className="h-4 w-4 mr-2" />
+                Import Activities
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-[#011d3d] border border-[#022b5c] text-white max-w-4xl">
+              <DialogHeader>
+                <DialogTitle className="text-xl font-semibold text-white">Import Activity Events</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <p className="text-sm text-gray-300">
+                  Upload a CSV with the columns <code>customer</code> (email or ID), <code>product</code> (name or ID),{" "}
+                  <code>type</code>, <code>externalRef</code> and <code>occurredAt</code>. Rows are previewed before any points are awarded,
+                  and references that were already imported are skipped.
+                </p>
                 <Input
-                  {...form.register("description")}
-                  className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+                  type="file"
+                  accept=".csv"
+                  onChange={(e) => {
+                    setImportFile(e.target.files?.[0] || null);
+                    setImportResult(null);
+                  }}
+                  className="bg-[#011d3d] border-[#022b5c] text-white"
                 />
-              </div>
-              <Tabs defaultValue="activities" className="w-full">
-                <div className="mb-4">
-                  <h3 className="text-lg font-semibold text-white">Activity Points</h3>
-                </div>
-                <TabsContent value="activities" className="mt-2">
-                  <div className="space-y-4">
-                    {activityTypes.map((type, index) => {
-                      const isPointsManaged = type === "PREMIUM_PAYMENT" || type === "CARD_BALANCE";
-                      return (
-                        <div key={type} className="grid grid-cols-2 gap-4 items-center">
-                          <label className="font-medium text-white">
-                            {type.split('_').map(word =>
-                              word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
-                            ).join(' ')} points:
-                          </label>
-                          <div className="flex items-center space-x-2">
-                            <Input
-                              type="number"
-                              disabled={isPointsManaged}
-                              {...form.register(`activities.${index}.pointsValue`, { valueAsNumber: true })}
-                              className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E] disabled:opacity-50"
-                            />
-                            {isPointsManaged && (
-                              <span className="text-sm text-[#43EB3E]">
-                                (Managed in customer assignments)
-                              </span>
-                            )}
-                          </div>
-                        </div>
-                      );
-                    })}
+                {importResult && (
+                  <div className="space-y-2">
+                    <div className="flex gap-4 text-sm">
+                      <span className="text-[#43EB3E]">
+                        {importResult.applied} {importResult.dryRun ? "to apply" : "applied"} ({importResult.totalPoints.toLocaleString()} points)
+                      </span>
+                      <span className="text-yellow-400">{importResult.duplicates} duplicates</span>
+                      <span className="text-red-500">{importResult.failed} errors</span>
+                    </div>
+                    <ScrollArea className="h-[300px]">
+                      <Table>
+                        <TableHeader>
+                          <TableRow className="border-[#022b5c]">
+                            <TableHead className="text-white">Row</TableHead>
+                            <TableHead className="text-white">Customer</TableHead>
+                            <TableHead className="text-white">Product</TableHead>
+                            <TableHead className="text-white">Type</TableHead>
+                            <TableHead className="text-white">Reference</TableHead>
+                            <TableHead className="text-white">Points</TableHead>
+                            <TableHead className="text-white">Result</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {importResult.rows.map((row) => (
+                            <TableRow key={row.row} className="border-[#022b5c]">
+                              <TableCell className="text-white">{row.row}</TableCell>
+                              <TableCell className="text-white">{row.customer}</TableCell>
+                              <TableCell className="text-white">{row.product}</TableCell>
+                              <TableCell className="text-white">{row.type}</TableCell>
+                              <TableCell className="text-white">{row.externalRef}</TableCell>
+                              <TableCell className="text-white">{row.points || "-"}</TableCell>
+                              <TableCell>
+                                {row.status === "error" ? (
+                                  <span className="text-sm text-red-500">{row.error}</span>
+                                ) : (
+                                  <Badge variant="outline" className={row.status === "applied" ? "border-[#43EB3E] text-[#43EB3E]" : "border-yellow-400 text-yellow-400"}>
+                                    {row.status === "applied" ? (importResult.dryRun ? "Ready" : "Applied") : "Duplicate"}
+                                  </Badge>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </ScrollArea>
                   </div>
-                </TabsContent>
-              </Tabs>
-              <Button
-                type="submit"
-                className="w-full bg-[#43EB3E] hover:bg-[#3AD936] text-black"
-              >
+                )}
+                <div className="flex gap-2">
+                  {(!importResult || importResult.dryRun) && (
+                    <Button
+                      variant="outline"
+                      className="border-[#022b5c] text-white hover:bg-[#022b5c]"
+                      disabled={!importFile || importActivitiesMutation.isPending}
+                      onClick={() => importFile && importActivitiesMutation.mutate({ file: importFile, dryRun: true })}
+                    >
+                      Preview
+                    </Button>
+                  )}
+                  {importResult?.dryRun && importResult.applied > 0 && (
+                    <Button
+                      className="bg-[#43EB3E] hover:bg-[#3AD936] text-black"
+                      disabled={!importFile || importActivitiesMutation.isPending}
+                      onClick={() => importFile && importActivitiesMutation.mutate({ file: importFile, dryRun: false })}
+                    >
+                      Award {importResult.totalPoints.toLocaleString()} Points
+                    </Button>
+                  )}
+                  {importResult && !importResult.dryRun && (
+                    <Button
+                      variant="outline"
+                      className="border-[#022b5c] text-white hover:bg-[#022b5c]"
+                      onClick={downloadImportResults}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Download Results CSV
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button className="bg-[#43EB3E] hover:bg-[#3AD936] text-black">
+                <Plus className="h-4 w-4 mr-2" />
                 Create Product
               </Button>
-            </form>
-          </DialogContent>
-        </Dialog>
+            </DialogTrigger>
+            <DialogContent className="bg-[#011d3d] border border-[#022b5c] text-white sm:max-w-[425px]">
+              <DialogHeader>
+                <DialogTitle className="text-xl font-semibold text-white">Create New Product</DialogTitle>
+              </DialogHeader>
+              <form
+                onSubmit={form.handleSubmit((data) => createProductMutation.mutate(data))}
+                className="space-y-4"
+              >
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">Name</label>
+                  <Input
+                    {...form.register("name")}
+                    className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">Description</label>
+                  <Input
+                    {...form.register("description")}
+                    className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+                  />
+                </div>
+                <Tabs defaultValue="activities" className="w-full">
+                  <div className="mb-4">
+                    <h3 className="text-lg font-semibold text-white">Activity Points</h3>
+                  </div>
+                  <TabsContent value="activities" className="mt-2">
+                    <div className="space-y-4">
+                      {activityTypes.map((type, index) => {
+                        const isPointsManaged = type === "PREMIUM_PAYMENT" || type === "CARD_BALANCE";
+                        return (
+                          <div key={type} className="grid grid-cols-2 gap-4 items-center">
+                            <label className="font-medium text-white">
+                              {type.split('_').map(word =>
+                                word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+                              ).join(' ')} points:
+                            </label>
+                            <div className="flex items-center space-x-2">
+                              <Input
+                                type="number"
+                                disabled={isPointsManaged}
+                                {...form.register(`activities.${index}.pointsValue`, { valueAsNumber: true })}
+                                className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E] disabled:opacity-50"
+                              />
+                              {isPointsManaged && (
+                                <span className="text-sm text-[#43EB3E]">
+                                  (Managed in customer assignments)
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </TabsContent>
+                </Tabs>
+                <Button
+                  type="submit"
+                  className="w-full bg-[#43EB3E] hover:bg-[#3AD936] text-black"
+                >
+                  Create Product
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
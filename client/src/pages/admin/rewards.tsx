@@ -5,23 +5,292 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { useForm } from "react-hook-form";
+import { useForm, type UseFormReturn } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
-import RewardCard from "@/components/shared/reward-card";
+import { useConversionRate } from "@/hooks/use-conversion-rate";
+import {
+  REWARD_TYPE_LABELS,
+  LIMIT_PERIOD_LABELS,
+  formatRewardLimit,
+  type RewardType,
+  type RewardLimitPeriod,
+} from "@/components/shared/reward-card";
 import { useState } from "react";
-import { Plus, Pencil, Trash } from "lucide-react";
+import { Link } from "wouter";
+import { Plus, Pencil, Trash, Ticket } from "lucide-react";
 
 type Reward = {
   id: number;
   name: string;
   description: string;
+  type: RewardType;
   pointsCost: number;
+  randValue: string | null;
   imageUrl: string;
+  thumbnailUrl: string | null;
   available: boolean;
+  stock: number | null;
+  lowStockThreshold: number;
+  limitPerCustomer: number | null;
+  limitPeriod: RewardLimitPeriod;
+  availableFrom: string | null;
+  availableUntil: string | null;
   createdAt: string;
-  type?: "CASH" | "STANDARD";
 };
 
+type RewardFormData = {
+  name: string;
+  description: string;
+  type: RewardType;
+  pointsCost: number;
+  randValue: string;
+  imageUrl: string;
+  thumbnailUrl: string;
+  stock: string;
+  lowStockThreshold: number;
+  limitPerCustomer: string;
+  limitPeriod: RewardLimitPeriod;
+  availableFrom: string;
+  availableUntil: string;
+};
+
+const EMPTY_REWARD: RewardFormData = {
+  name: "",
+  description: "",
+  type: "VOUCHER",
+  pointsCost: 0,
+  randValue: "",
+  imageUrl: "",
+  thumbnailUrl: "",
+  stock: "",
+  lowStockThreshold: 5,
+  limitPerCustomer: "",
+  limitPeriod: "LIFETIME",
+  availableFrom: "",
+  availableUntil: "",
+};
+
+// datetime-local inputs work in local time without a zone
+function toLocalInput(value: string | null) {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function toRequestBody(data: RewardFormData) {
+  return {
+    ...data,
+    availableFrom: data.availableFrom ? new Date(data.availableFrom).toISOString() : null,
+    availableUntil: data.availableUntil ? new Date(data.availableUntil).toISOString() : null,
+  };
+}
+
+const REWARD_TYPE_HINTS: Record<RewardType, string> = {
+  VOUCHER: "Each redemption hands out a code from the reward's pool. Upload codes once the reward is saved.",
+  PHYSICAL: "Customers need a delivery address on their profile to redeem this.",
+  CASH: "Paid into the customer's verified bank account once the redemption is approved.",
+  EXPERIENCE: "An event or service the customer is booked on once redeemed.",
+};
+
+async function readError(res: Response) {
+  const body = await res.text();
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.details?.[0]?.message ?? parsed.error ?? body;
+  } catch {
+    return body;
+  }
+}
+
+// Matches the server's check so most bad files are caught before uploading.
+// The server also limits the size, which can be configured.
+const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+function RewardImageUpload({ form }: { form: UseFormReturn<RewardFormData> }) {
+  const { toast } = useToast();
+  const imageUrl = form.watch("imageUrl");
+  const thumbnailUrl = form.watch("thumbnailUrl");
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      if (!IMAGE_TYPES.includes(file.type)) throw new Error("Upload a JPEG, PNG or WebP image");
+
+      const formData = new FormData();
+      formData.append("image", file);
+      const res = await fetch("/api/admin/reward-images", {
+        method: "POST",
+        credentials: "include",
+        body: formData,
+      });
+      if (!res.ok) throw new Error(await readError(res));
+      return res.json() as Promise<{ imageUrl: string; thumbnailUrl: string }>;
+    },
+    onSuccess: (image) => {
+      form.setValue("imageUrl", image.imageUrl);
+      form.setValue("thumbnailUrl", image.thumbnailUrl);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-white">Image</label>
+      {imageUrl && (
+        <img
+          src={thumbnailUrl || imageUrl}
+          alt=""
+          className="h-20 w-20 rounded-md object-cover"
+        />
+      )}
+      <Input 
+        type="file" 
+        accept={IMAGE_TYPES.join(",")}
+        disabled={uploadMutation.isPending}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) uploadMutation.mutate(file);
+          e.target.value = "";
+        }}
+        className="bg-[#011d3d] border-[#022b5c] text-white"
+      />
+      <p className="text-sm text-gray-300">
+        {uploadMutation.isPending ? "Uploading…" : "JPEG, PNG or WebP. It is cropped to fit the reward card."}
+      </p>
+    </div>
+  );
+}
+
+function RewardFields({ form }: { form: UseFormReturn<RewardFormData> }) {
+  const { randPerPoint } = useConversionRate();
+  const type = form.watch("type");
+  const randValue = Number(form.watch("randValue"));
+
+  return (
+    <>
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-white">Type</label>
+        <select 
+          {...form.register("type")} 
+          className="w-full p-2 rounded-md border border-[#022b5c] bg-[#011d3d] text-white focus:ring-2 focus:ring-[#43EB3E] focus:border-transparent"
+        >
+          {(Object.keys(REWARD_TYPE_LABELS) as RewardType[]).map((value) => (
+            <option key={value} value={value}>{REWARD_TYPE_LABELS[value]}</option>
+          ))}
+        </select>
+        <p className="text-sm text-gray-300">{REWARD_TYPE_HINTS[type]}</p>
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-white">Name</label>
+        <Input 
+          {...form.register("name")} 
+          className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+        />
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-white">Description</label>
+        <Textarea 
+          {...form.register("description")} 
+          className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E] min-h-[100px]"
+        />
+      </div>
+      {type === "CASH" && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-white">Rand Value</label>
+          <Input 
+            type="number" 
+            step="0.01"
+            min="0"
+            {...form.register("randValue")} 
+            className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+          />
+        </div>
+      )}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-white">Points Cost</label>
+        <Input 
+          type="number" 
+          {...form.register("pointsCost")} 
+          className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+        />
+        {type === "CASH" && randPerPoint && randValue > 0 && (
+          <p className="text-sm text-[#43EB3E]">
+            R{randValue.toFixed(2)} is {Math.ceil(randValue / randPerPoint).toLocaleString()} points at the current rate
+          </p>
+        )}
+      </div>
+      <RewardImageUpload form={form} />
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-white">Stock</label>
+          <Input 
+            type="number" 
+            min="0"
+            placeholder="Unlimited"
+            {...form.register("stock")} 
+            className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-white">Low Stock Alert At</label>
+          <Input 
+            type="number" 
+            min="0"
+            {...form.register("lowStockThreshold")} 
+            className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-white">Limit Per Customer</label>
+          <Input 
+            type="number" 
+            min="1"
+            placeholder="No limit"
+            {...form.register("limitPerCustomer")} 
+            className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-white">Limit Applies</label>
+          <select 
+            {...form.register("limitPeriod")} 
+            className="w-full p-2 rounded-md border border-[#022b5c] bg-[#011d3d] text-white focus:ring-2 focus:ring-[#43EB3E] focus:border-transparent"
+          >
+            {(Object.keys(LIMIT_PERIOD_LABELS) as RewardLimitPeriod[]).map((value) => (
+              <option key={value} value={value}>{value === "LIFETIME" ? "Ever" : LIMIT_PERIOD_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-white">Available From</label>
+          <Input 
+            type="datetime-local" 
+            {...form.register("availableFrom")} 
+            className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-white">Available Until</label>
+          <Input 
+            type="datetime-local" 
+            {...form.register("availableUntil")} 
+            className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+          />
+        </div>
+      </div>
+    </>
+  );
+}
+
 export default function AdminRewards() {
   const { data: rewards = [] } = useQuery<Reward[]>({
     queryKey: ["/api/rewards"],
@@ -32,40 +301,22 @@ export default function AdminRewards() {
   const [isEditOpen, setIsEditOpen] = useState(false);
 
   const { toast } = useToast();
-  const form = useForm({
-    defaultValues: {
-      name: "",
-      description: "",
-      pointsCost: 0,
-      imageUrl: "",
-      type: "STANDARD" as "CASH" | "STANDARD",
-    },
+  const form = useForm<RewardFormData>({
+    defaultValues: EMPTY_REWARD,
   });
 
-  const editForm = useForm({
-    defaultValues: {
-      name: "",
-      description: "",
-      pointsCost: 0,
-      imageUrl: "",
-      type: "STANDARD" as "CASH" | "STANDARD",
-    },
+  const editForm = useForm<RewardFormData>({
+    defaultValues: EMPTY_REWARD,
   });
 
   const createRewardMutation = useMutation({
-    mutationFn: async (data: { 
-      name: string; 
-      description: string; 
-      pointsCost: number; 
-      imageUrl: string;
-      type: "CASH" | "STANDARD";
-    }) => {
+    mutationFn: async (data: RewardFormData) => {
       const res = await fetch("/api/rewards", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
+        body: JSON.stringify(toRequestBody(data)),
       });
-      if (!res.ok) throw new Error(await res.text());
+      if (!res.ok) throw new Error(await readError(res));
       return res.json();
     },
     onSuccess: () => {
@@ -85,13 +336,13 @@ export default function AdminRewards() {
   });
 
   const updateRewardMutation = useMutation({
-    mutationFn: async ({ id, ...data }: { id: number; name: string; description: string; pointsCost: number; imageUrl: string; type: "CASH" | "STANDARD"; }) => {
+    mutationFn: async ({ id, ...data }: RewardFormData & { id: number }) => {
       const res = await fetch(`/api/rewards/${id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
+        body: JSON.stringify(toRequestBody(data)),
       });
-      if (!res.ok) throw new Error(await res.text());
+      if (!res.ok) throw new Error(await readError(res));
       return res.json();
     },
     onSuccess: () => {
@@ -138,9 +389,17 @@ export default function AdminRewards() {
     editForm.reset({
       name: reward.name,
       description: reward.description,
+      type: reward.type,
       pointsCost: reward.pointsCost,
+      randValue: reward.randValue ?? "",
       imageUrl: reward.imageUrl,
-      type: reward.type || "STANDARD",
+      thumbnailUrl: reward.thumbnailUrl ?? "",
+      stock: reward.stock?.toString() ?? "",
+      lowStockThreshold: reward.lowStockThreshold,
+      limitPerCustomer: reward.limitPerCustomer?.toString() ?? "",
+      limitPeriod: reward.limitPeriod,
+      availableFrom: toLocalInput(reward.availableFrom),
+      availableUntil: toLocalInput(reward.availableUntil),
     });
     setIsEditOpen(true);
   };
@@ -162,55 +421,12 @@ export default function AdminRewards() {
               Add New Reward
             </Button>
           </DialogTrigger>
-          <DialogContent className="bg-[#011d3d] border border-[#022b5c] text-white sm:max-w-[425px]">
+          <DialogContent className="bg-[#011d3d] border border-[#022b5c] text-white sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="text-xl font-semibold text-white">Create New Reward</DialogTitle>
             </DialogHeader>
             <form onSubmit={form.handleSubmit((data) => createRewardMutation.mutate(data))} className="space-y-4">
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-white">Type</label>
-                <select 
-                  {...form.register("type")} 
-                  className="w-full p-2 rounded-md border border-[#022b5c] bg-[#011d3d] text-white focus:ring-2 focus:ring-[#43EB3E] focus:border-transparent"
-                >
-                  <option value="STANDARD">Standard Reward</option>
-                  <option value="CASH">Cash Redemption</option>
-                </select>
-              </div>
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-white">Name</label>
-                <Input 
-                  {...form.register("name")} 
-                  className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
-                />
-              </div>
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-white">Description</label>
-                <Textarea 
-                  {...form.register("description")} 
-                  className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E] min-h-[100px]"
-                />
-              </div>
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-white">Points Cost</label>
-                <Input 
-                  type="number" 
-                  {...form.register("pointsCost")} 
-                  className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
-                />
-                {form.watch("type") === "CASH" && (
-                  <p className="text-sm text-[#43EB3E]">
-                    Rand value: R{(Number(form.watch("pointsCost")) * 0.015).toFixed(2)}
-                  </p>
-                )}
-              </div>
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-white">Image URL</label>
-                <Input 
-                  {...form.register("imageUrl")} 
-                  className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
-                />
-              </div>
+              <RewardFields form={form} />
               <Button 
                 type="submit" 
                 className="w-full bg-[#43EB3E] hover:bg-[#3AD936] text-black"
@@ -223,7 +439,7 @@ export default function AdminRewards() {
       </div>
 
       <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
-        <DialogContent className="bg-[#011d3d] border border-[#022b5c] text-white sm:max-w-[425px]">
+        <DialogContent className="bg-[#011d3d] border border-[#022b5c] text-white sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="text-xl font-semibold text-white">Edit Reward</DialogTitle>
           </DialogHeader>
@@ -233,50 +449,7 @@ export default function AdminRewards() {
             )} 
             className="space-y-4"
           >
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-white">Type</label>
-              <select 
-                {...editForm.register("type")} 
-                className="w-full p-2 rounded-md border border-[#022b5c] bg-[#011d3d] text-white focus:ring-2 focus:ring-[#43EB3E] focus:border-transparent"
-              >
-                <option value="STANDARD">Standard Reward</option>
-                <option value="CASH">Cash Redemption</option>
-              </select>
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-white">Name</label>
-              <Input 
-                {...editForm.register("name")} 
-                className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
-              />
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-white">Description</label>
-              <Textarea 
-                {...editForm.register("description")} 
-                className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E] min-h-[100px]"
-              />
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-white">Points Cost</label>
-              <Input 
-                type="number" 
-                {...editForm.register("pointsCost")} 
-                className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
-              />
-              {editForm.watch("type") === "CASH" && (
-                <p className="text-sm text-[#43EB3E]">
-                  Rand value: R{(Number(editForm.watch("pointsCost")) * 0.015).toFixed(2)}
-                </p>
-              )}
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-white">Image URL</label>
-              <Input 
-                {...editForm.register("imageUrl")} 
-                className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
-              />
-            </div>
+            <RewardFields form={editForm} />
             <Button 
               type="submit" 
               className="w-full bg-[#43EB3E] hover:bg-[#3AD936] text-black"
@@ -294,11 +467,24 @@ export default function AdminRewards() {
               <div className="flex justify-between items-start">
                 <div>
                   <CardTitle className="text-white">{reward.name}</CardTitle>
-                  {reward.type === "CASH" && (
-                    <p className="text-sm text-[#43EB3E]">Cash Redemption</p>
+                  <p className="text-sm text-[#43EB3E]">{REWARD_TYPE_LABELS[reward.type]}</p>
+                  {!reward.available && (
+                    <p className="text-sm text-red-400">Sold out</p>
                   )}
                 </div>
                 <div className="flex gap-2">
+                  {reward.type === "VOUCHER" && (
+                    <Button 
+                      variant="outline" 
+                      size="icon"
+                      asChild
+                      className="border-[#022b5c] hover:bg-[#022b5c]"
+                    >
+                      <Link href={`/admin/rewards/${reward.id}/codes`} title="Voucher codes">
+                        <Ticket className="h-4 w-4 text-white" />
+                      </Link>
+                    </Button>
+                  )}
                   <Button 
                     variant="outline" 
                     size="icon"
@@ -324,7 +510,21 @@ export default function AdminRewards() {
                 <p className="font-semibold text-white">{reward.pointsCost} points</p>
                 {reward.type === "CASH" && (
                   <p className="text-sm text-[#43EB3E]">
-                    (R{(reward.pointsCost * 0.015).toFixed(2)})
+                    (pays R{reward.randValue})
+                  </p>
+                )}
+              </div>
+              <div className="mt-2 space-y-1 text-sm text-gray-300">
+                <p className={reward.stock !== null && reward.stock <= reward.lowStockThreshold ? "text-amber-400" : undefined}>
+                  {reward.stock === null ? "Unlimited stock" : `${reward.stock} in stock`}
+                </p>
+                {reward.limitPerCustomer !== null && (
+                  <p>{formatRewardLimit(reward.limitPerCustomer, reward.limitPeriod)}</p>
+                )}
+                {(reward.availableFrom || reward.availableUntil) && (
+                  <p>
+                    {reward.availableFrom && `From ${new Date(reward.availableFrom).toLocaleString()} `}
+                    {reward.availableUntil && `Until ${new Date(reward.availableUntil).toLocaleString()}`}
                   </p>
                 )}
               </div>
@@ -0,0 +1,303 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { useState } from "react";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import TierBadge from "@/components/shared/tier-badge";
+
+type Tier = {
+  id: number;
+  name: string;
+  threshold: number;
+  color: string;
+  sortOrder: number;
+  premiumMultiplier: number;
+  cardMultiplier: number;
+  posMultiplier: number;
+};
+
+const MULTIPLIER_FIELDS = [
+  { name: "premiumMultiplier", label: "Premium" },
+  { name: "cardMultiplier", label: "Card" },
+  { name: "posMultiplier", label: "POS" },
+] as const;
+
+const tierSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  threshold: z.number().int().min(0, "Threshold must be zero or more"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colour must be a hex value like #eab308"),
+  sortOrder: z.number().int(),
+  premiumMultiplier: z.number().min(0, "Multipliers cannot be negative"),
+  cardMultiplier: z.number().min(0, "Multipliers cannot be negative"),
+  posMultiplier: z.number().min(0, "Multipliers cannot be negative"),
+});
+
+type TierFormData = z.infer<typeof tierSchema>;
+
+export default function TierManagement() {
+  const { user } = useUser();
+  const { data: tiers = [] } = useQuery<Tier[]>({
+    queryKey: ["/api/tiers"],
+  });
+
+  const [editingTier, setEditingTier] = useState<Tier | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { toast } = useToast();
+  const form = useForm<TierFormData>({
+    resolver: zodResolver(tierSchema),
+    defaultValues: {
+      name: "",
+      threshold: 0,
+      color: "#43eb3e",
+      sortOrder: 0,
+      premiumMultiplier: 0,
+      cardMultiplier: 0,
+      posMultiplier: 0,
+    },
+  });
+
+  const saveTierMutation = useMutation({
+    mutationFn: async ({ id, ...data }: TierFormData & { id?: number }) => {
+      const res = await fetch(id ? `/api/admin/tiers/${id}` : "/api/admin/tiers", {
+        method: id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tiers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/logs"] });
+      toast({ title: "Success", description: `Tier ${editingTier ? "updated" : "created"} successfully` });
+      form.reset();
+      setIsFormOpen(false);
+      setEditingTier(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const deleteTierMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(`/api/admin/tiers/${id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tiers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/logs"] });
+      toast({ title: "Success", description: "Tier deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const openForm = (tier?: Tier) => {
+    setEditingTier(tier || null);
+    form.reset(tier
+      ? {
+          name: tier.name,
+          threshold: tier.threshold,
+          color: tier.color,
+          sortOrder: tier.sortOrder,
+          premiumMultiplier: tier.premiumMultiplier,
+          cardMultiplier: tier.cardMultiplier,
+          posMultiplier: tier.posMultiplier,
+        }
+      : {
+          name: "",
+          threshold: 0,
+          color: "#43eb3e",
+          sortOrder: tiers.length + 1,
+          premiumMultiplier: 0,
+          cardMultiplier: 0,
+          posMultiplier: 0,
+        });
+    setIsFormOpen(true);
+  };
+
+  const canEdit = !!user?.isSuperAdmin;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold text-white">Tier Management</h1>
+        {canEdit && (
+          <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+            <DialogTrigger asChild>
+              <Button className="bg-[#43EB3E] hover:bg-[#3AD936] text-black" onClick={() => openForm()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Tier
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-[#011d3d] border border-[#022b5c] text-white sm:max-w-[425px]">
+              <DialogHeader>
+                <DialogTitle className="text-xl font-semibold text-white">
+                  {editingTier ? "Edit Tier" : "Create New Tier"}
+                </DialogTitle>
+              </DialogHeader>
+              <form
+                onSubmit={form.handleSubmit((data) => saveTierMutation.mutate({ ...data, id: editingTier?.id }))}
+                className="space-y-4"
+              >
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">Name</label>
+                  <Input
+                    {...form.register("name")}
+                    className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">Points Threshold</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    {...form.register("threshold", { valueAsNumber: true })}
+                    className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">Colour</label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="color"
+                      {...form.register("color")}
+                      className="w-16 p-1 bg-[#011d3d] border-[#022b5c]"
+                    />
+                    <TierBadge tier={{ name: form.watch("name") || "Preview", color: form.watch("color") }} />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">Display Order</label>
+                  <Input
+                    type="number"
+                    {...form.register("sortOrder", { valueAsNumber: true })}
+                    className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">Points per Rand</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {MULTIPLIER_FIELDS.map((field) => (
+                      <div key={field.name} className="space-y-1">
+                        <span className="text-xs text-gray-300">{field.label}</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          {...form.register(field.name, { valueAsNumber: true })}
+                          className="bg-[#011d3d] border-[#022b5c] text-white focus:ring-[#43EB3E]"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                {Object.values(form.formState.errors).map((error) => (
+                  <p key={error?.message} className="text-sm text-red-500">{error?.message}</p>
+                ))}
+                <Button
+                  type="submit"
+                  className="w-full bg-[#43EB3E] hover:bg-[#3AD936] text-black"
+                  disabled={saveTierMutation.isPending}
+                >
+                  {editingTier ? "Update Tier" : "Create Tier"}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      <Card className="bg-[#011d3d] border-[#022b5c]">
+        <CardHeader>
+          <CardTitle className="text-white">Tiers</CardTitle>
+          {!canEdit && (
+            <p className="text-sm text-gray-300">Only super admins can change tiers.</p>
+          )}
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow className="border-[#022b5c]">
+                <TableHead className="text-white">Tier</TableHead>
+                <TableHead className="text-white">Qualifying Points</TableHead>
+                <TableHead className="text-white">Premium</TableHead>
+                <TableHead className="text-white">Card</TableHead>
+                <TableHead className="text-white">POS</TableHead>
+                <TableHead className="text-white">Display Order</TableHead>
+                {canEdit && <TableHead className="text-white">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...tiers].sort((a, b) => a.sortOrder - b.sortOrder).map((tier) => (
+                <TableRow key={tier.id} className="border-[#022b5c]">
+                  <TableCell>
+                    <TierBadge tier={tier} />
+                  </TableCell>
+                  <TableCell className="text-white">{tier.threshold.toLocaleString()}+</TableCell>
+                  {MULTIPLIER_FIELDS.map((field) => (
+                    <TableCell key={field.name} className="text-white">×{tier[field.name]}</TableCell>
+                  ))}
+                  <TableCell className="text-white">{tier.sortOrder}</TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openForm(tier)}
+                          className="border-[#022b5c] text-white hover:bg-[#022b5c]"
+                        >
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => {
+                            if (confirm(`Are you sure you want to delete the ${tier.name} tier?`)) {
+                              deleteTierMutation.mutate(tier.id);
+                            }
+                          }}
+                          className="bg-red-500/20 text-red-500 hover:bg-red-500/30"
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
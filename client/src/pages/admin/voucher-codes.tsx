@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Upload } from "lucide-react";
+
+type VoucherCodeFilter = "all" | "unused" | "used";
+
+type VoucherCode = {
+  id: number;
+  code: string;
+  claimedAt: string | null;
+  createdAt: string;
+  claimer: {
+    id: number;
+    firstName: string;
+    lastName: string;
+    email: string;
+  } | null;
+};
+
+type VoucherCodePool = {
+  reward: { id: number; name: string };
+  total: number;
+  unused: number;
+  used: number;
+  codes: VoucherCode[];
+};
+
+async function readError(response: Response) {
+  const body = await response.text();
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
+export default function VoucherCodes() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [filter, setFilter] = useState<VoucherCodeFilter>("all");
+
+  const poolKey = `/api/admin/rewards/${id}/voucher-codes`;
+  const { data: pool, error } = useQuery<VoucherCodePool>({
+    queryKey: [poolKey],
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (upload: File) => {
+      const formData = new FormData();
+      formData.append("file", upload);
+      const response = await fetch(poolKey, {
+        method: "POST",
+        credentials: "include",
+        body: formData,
+      });
+      if (!response.ok) throw new Error(await readError(response));
+      return response.json() as Promise<{ added: number; duplicates: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [poolKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/logs"] });
+      setFile(null);
+      toast({
+        title: "Codes Uploaded",
+        description: `Added ${result.added} codes. ${result.duplicates} duplicates skipped.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const codes = (pool?.codes ?? []).filter((code) =>
+    filter === "all" || (filter === "used" ? code.claimedAt : !code.claimedAt)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="icon" asChild>
+          <Link href="/admin/rewards">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold">{pool ? `${pool.reward.name} Codes` : "Voucher Codes"}</h1>
+      </div>
+
+      {error && <p className="text-red-500">{error.message}</p>}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Pool</CardTitle>
+            <CardDescription>Each redemption receives the next unused code</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            <p className="text-2xl font-semibold">{pool?.unused ?? 0} unused</p>
+            <p className="text-sm text-muted-foreground">
+              {pool?.used ?? 0} used of {pool?.total ?? 0} uploaded
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Upload Codes</CardTitle>
+            <CardDescription>A CSV with one code per line. Codes already in the pool are skipped.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (file) uploadMutation.mutate(file);
+              }}
+            >
+              <Input
+                type="file"
+                accept=".csv,.txt"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+              <Button type="submit" disabled={!file || uploadMutation.isPending}>
+                <Upload className="h-4 w-4 mr-2" />
+                Upload
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>Codes</CardTitle>
+            <div className="flex gap-2">
+              {(["all", "unused", "used"] as VoucherCodeFilter[]).map((value) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={filter === value ? "default" : "outline"}
+                  onClick={() => setFilter(value)}
+                >
+                  {value.charAt(0).toUpperCase() + value.slice(1)}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Claimed</TableHead>
+                <TableHead>Uploaded</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {codes.map((code) => (
+                <TableRow key={code.id}>
+                  <TableCell className="font-mono">{code.code}</TableCell>
+                  <TableCell>
+                    {code.claimedAt ? <Badge variant="secondary">Used</Badge> : <Badge>Unused</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {code.claimer && (
+                      <div>
+                        <div>{code.claimer.firstName} {code.claimer.lastName}</div>
+                        <div className="text-sm text-muted-foreground">{code.claimer.email}</div>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {code.claimedAt && new Date(code.claimedAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{new Date(code.createdAt).toLocaleDateString()}</TableCell>
+                </TableRow>
+              ))}
+              {codes.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-4">
+                    No codes
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
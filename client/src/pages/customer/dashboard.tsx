@@ -3,14 +3,33 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import PointsDisplay from "@/components/shared/points-display";
-import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { queryClient } from "@/lib/queryClient";
 import { useState } from "react";
 import ReferralSection from "@/components/shared/referral-section";
 import { formatTransactionType } from "@/lib/utils";
+import TierBadge, { type TierInfo } from "@/components/shared/tier-badge";
+import TierTimeline from "@/components/shared/tier-timeline";
+import type { PayoutAccount } from "@/components/shared/payout-account-card";
+import {
+  FULFILMENT_STATUS_LABELS,
+  FULFILMENT_STATUS_VARIANTS,
+  type FulfilmentStatus,
+} from "@/components/shared/reward-card";
+import { Link } from "wouter";
+import { useConversionRate } from "@/hooks/use-conversion-rate";
+
+interface CashRedemptionAllowance {
+  minimumRand: number;
+  dailyCapRand: number;
+  dailyRemainingRand: number | null;
+  monthlyCapRand: number;
+  monthlyRemainingRand: number | null;
+  coolingOffUntil: string | null;
+}
 
 interface User {
   id: number;
@@ -26,43 +45,15 @@ interface Transaction {
   description: string;
   createdAt: string;
   type?: string; // Added type property to Transaction interface
+  voucherCode: { code: string } | null;
+  fulfilment: {
+    status: FulfilmentStatus;
+    courier: string | null;
+    trackingNumber: string | null;
+    cancellationReason: string | null;
+  } | null;
 }
 
-const getTierInfo = (points: number): { name: string; color: string; nextTier?: { name: string; pointsNeeded: number } } => {
-  if (points >= 150000) {
-    return {
-      name: "Platinum",
-      color: "bg-gradient-to-r from-purple-400 to-gray-300 text-white",
-    };
-  }
-  if (points >= 100000) {
-    return {
-      name: "Gold",
-      color: "bg-yellow-500 text-white",
-      nextTier: { name: "Platinum", pointsNeeded: 150000 - points },
-    };
-  }
-  if (points >= 50000) {
-    return {
-      name: "Purple",
-      color: "bg-purple-500 text-white",
-      nextTier: { name: "Gold", pointsNeeded: 100000 - points },
-    };
-  }
-  if (points >= 10000) {
-    return {
-      name: "Silver",
-      color: "bg-gray-400 text-white",
-      nextTier: { name: "Purple", pointsNeeded: 50000 - points },
-    };
-  }
-  return {
-    name: "Bronze",
-    color: "bg-amber-600 text-white",
-    nextTier: { name: "Silver", pointsNeeded: 10000 - points },
-  };
-};
-
 export default function CustomerDashboard() {
   const { data: user } = useQuery<User>({
     queryKey: ["/api/customer/points"],
@@ -90,7 +81,26 @@ export default function CustomerDashboard() {
     }
   });
 
+  const { data: tierInfo } = useQuery<TierInfo & { qualifyingPoints: number }>({
+    queryKey: ["/api/customer/tier"],
+  });
+
+  const { data: pointsExpiry } = useQuery<{ points: number; expiresAt: string } | null>({
+    queryKey: ["/api/customer/points-expiry"],
+  });
+
+  const { data: payoutAccount } = useQuery<PayoutAccount | null>({
+    queryKey: ["/api/user/payout-account"],
+  });
+
+  const { data: allowance } = useQuery<CashRedemptionAllowance>({
+    queryKey: ["/api/customer/cash-redemption-allowance"],
+  });
+
+  const { rate, toRand } = useConversionRate();
+
   const [pointsToRedeem, setPointsToRedeem] = useState<number>(0);
+  const [redeemError, setRedeemError] = useState<string | null>(null);
   const { toast } = useToast();
 
   const redeemCashMutation = useMutation({
@@ -104,16 +114,22 @@ export default function CustomerDashboard() {
       if (!res.ok) throw new Error(await res.text());
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { message: string }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/customer/points"] });
       queryClient.invalidateQueries({ queryKey: ["/api/customer/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customer/tier"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customer/tier-history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customer/points-expiry"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customer/cash-redemption-allowance"] });
       toast({
         title: "Success",
-        description: `Successfully redeemed R${(pointsToRedeem * 0.015).toFixed(2)}`,
+        description: data.message,
       });
       setPointsToRedeem(0);
+      setRedeemError(null);
     },
     onError: (error: Error) => {
+      setRedeemError(error.message);
       toast({
         variant: "destructive",
         title: "Error",
@@ -122,8 +138,8 @@ export default function CustomerDashboard() {
     },
   });
 
-  const tierInfo = getTierInfo(user?.points || 0);
-  const randValue = (pointsToRedeem * 0.015).toFixed(2);
+  const randValue = toRand(pointsToRedeem);
+  const hasVerifiedAccount = payoutAccount?.status === "VERIFIED";
   const canRedeem = pointsToRedeem > 0 && pointsToRedeem <= (user?.points || 0);
 
   return (
@@ -136,24 +152,39 @@ export default function CustomerDashboard() {
             <CardTitle>Current Points & Tier</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <PointsDisplay points={user?.points || 0} size="large" />
-            <div className="space-y-4">
-              <Badge className={`${tierInfo.color} text-lg px-4 py-2`}>
-                {tierInfo.name} Tier
-              </Badge>
-              {tierInfo.nextTier && (
-                <div className="space-y-2">
-                  <Progress
-                    value={((user?.points || 0) / tierInfo.nextTier.pointsNeeded) * 100}
-                    className="h-2"
-                  />
-                  <p className="text-sm text-muted-foreground">
-                    {tierInfo.nextTier.pointsNeeded.toLocaleString()} points needed to reach{" "}
-                    {tierInfo.nextTier.name}
-                  </p>
-                </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Spendable balance</p>
+              <PointsDisplay points={user?.points || 0} size="large" />
+              {pointsExpiry && pointsExpiry.points > 0 && (
+                <p className="text-sm text-amber-500">
+                  {pointsExpiry.points.toLocaleString()} points expiring on{" "}
+                  {new Date(pointsExpiry.expiresAt).toLocaleDateString()}
+                </p>
               )}
             </div>
+            {tierInfo && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {tierInfo.qualifyingPoints.toLocaleString()} qualifying points earned
+                </p>
+                <TierBadge
+                  tier={{ ...tierInfo, name: `${tierInfo.name} Tier` }}
+                  className="text-lg px-4 py-2"
+                />
+                {tierInfo.nextTier && (
+                  <div className="space-y-2">
+                    <Progress
+                      value={((tierInfo.qualifyingPoints - tierInfo.threshold) / (tierInfo.nextTier.threshold - tierInfo.threshold)) * 100}
+                      className="h-2"
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      {tierInfo.nextTier.pointsNeeded.toLocaleString()} qualifying points needed to reach{" "}
+                      {tierInfo.nextTier.name}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -169,30 +200,96 @@ export default function CustomerDashboard() {
                 min="0"
                 max={user?.points || 0}
                 value={pointsToRedeem}
-                onChange={(e) => setPointsToRedeem(Number(e.target.value))}
+                onChange={(e) => {
+                  setPointsToRedeem(Number(e.target.value));
+                  setRedeemError(null);
+                }}
                 placeholder="Enter points amount"
               />
-              <p className="text-sm text-muted-foreground">
-                Conversion rate: 1 point = R0.015
-              </p>
+              {rate && (
+                <p className="text-sm text-muted-foreground">
+                  Conversion rate: 1 point = R{Number(rate.randPerPoint)}
+                </p>
+              )}
+              {rate?.next && (
+                <p className="text-sm text-muted-foreground">
+                  Changes to R{Number(rate.next.randPerPoint)} per point on{" "}
+                  {new Date(rate.next.effectiveFrom).toLocaleDateString()}
+                </p>
+              )}
               {pointsToRedeem > 0 && (
                 <p className="text-sm font-medium">
                   You will receive: R{randValue}
                 </p>
               )}
             </div>
+            {allowance && (
+              <div className="space-y-1 text-sm text-muted-foreground">
+                {allowance.minimumRand > 0 && (
+                  <p>Minimum redemption: R{allowance.minimumRand.toFixed(2)}</p>
+                )}
+                {allowance.dailyRemainingRand !== null && (
+                  <p>
+                    Left in the next 24 hours: R{allowance.dailyRemainingRand.toFixed(2)} of R{allowance.dailyCapRand.toFixed(2)}
+                  </p>
+                )}
+                {allowance.monthlyRemainingRand !== null && (
+                  <p>
+                    Left in the next 30 days: R{allowance.monthlyRemainingRand.toFixed(2)} of R{allowance.monthlyCapRand.toFixed(2)}
+                  </p>
+                )}
+                {allowance.coolingOffUntil && (
+                  <p className="text-amber-500">
+                    New accounts can redeem cash from {new Date(allowance.coolingOffUntil).toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+            )}
+            {hasVerifiedAccount ? (
+              <p className="text-sm text-muted-foreground">
+                Paid into {payoutAccount.bankName} {payoutAccount.accountNumberMasked}
+              </p>
+            ) : (
+              <p className="text-sm text-amber-500">
+                {payoutAccount?.status === "PENDING_VERIFICATION"
+                  ? "Your bank details are being verified. You can redeem cash once they are approved."
+                  : payoutAccount?.status === "REJECTED"
+                    ? "Your bank details were rejected. Please update them on your "
+                    : "Add your bank details on your "}
+                {payoutAccount?.status !== "PENDING_VERIFICATION" && (
+                  <Link href="/profile" className="underline">profile</Link>
+                )}
+                {payoutAccount?.status !== "PENDING_VERIFICATION" && " to redeem cash."}
+              </p>
+            )}
             <Button
               className="w-full"
               onClick={() => redeemCashMutation.mutate(pointsToRedeem)}
-              disabled={!canRedeem}
+              disabled={!canRedeem || !hasVerifiedAccount || !!allowance?.coolingOffUntil || redeemCashMutation.isPending}
             >
-              {canRedeem ? "Redeem for Cash" : "Insufficient Points"}
+              {!hasVerifiedAccount
+                ? "Bank Details Required"
+                : canRedeem ? "Redeem for Cash" : "Insufficient Points"}
             </Button>
+            {redeemError && (
+              <p className="text-sm text-red-500">{redeemError}</p>
+            )}
           </CardContent>
         </Card>
 
         <ReferralSection />
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Tier History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-[300px]">
+              <TierTimeline source="/api/customer/tier-history" currentTier={tierInfo?.name} />
+            </ScrollArea>
+          </CardContent>
+        </Card>
+
         <Card className="md:col-span-3">
           <CardHeader>
             <CardTitle>Recent Activity</CardTitle>
@@ -209,6 +306,26 @@ export default function CustomerDashboard() {
                       <p className="font-medium">
                         {transaction.type ? formatTransactionType(transaction.type) : ''} - {transaction.description}
                       </p>
+                      {transaction.voucherCode && (
+                        <p className="text-sm">
+                          Voucher code: <span className="font-mono font-semibold select-all">{transaction.voucherCode.code}</span>
+                        </p>
+                      )}
+                      {transaction.fulfilment && (
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          <Badge variant={FULFILMENT_STATUS_VARIANTS[transaction.fulfilment.status]}>
+                            {FULFILMENT_STATUS_LABELS[transaction.fulfilment.status]}
+                          </Badge>
+                          {transaction.fulfilment.trackingNumber && (
+                            <span className="text-muted-foreground">
+                              {transaction.fulfilment.courier} · <span className="font-mono select-all">{transaction.fulfilment.trackingNumber}</span>
+                            </span>
+                          )}
+                          {transaction.fulfilment.cancellationReason && (
+                            <span className="text-muted-foreground">{transaction.fulfilment.cancellationReason}</span>
+                          )}
+                        </div>
+                      )}
                       <p className="text-sm text-muted-foreground">
                         {new Date(transaction.createdAt).toLocaleDateString()}
                       </p>
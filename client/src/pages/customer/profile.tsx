@@ -9,6 +9,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Loader2 } from "lucide-react";
+import NotificationPreferences from "@/components/shared/notification-preferences";
+import PayoutAccountCard from "@/components/shared/payout-account-card";
+import DeliveryAddressCard from "@/components/shared/delivery-address-card";
 
 const profileSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -190,6 +193,12 @@ export default function ProfilePage() {
           </Form>
         </CardContent>
       </Card>
+
+      <PayoutAccountCard />
+
+      <DeliveryAddressCard />
+
+      <NotificationPreferences />
     </div>
   );
 }
\ No newline at end of file
@@ -13,3 +13,6 @@ export const db = drizzle({
   schema,
   ws: ws,
 });
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type DbExecutor = typeof db | DbTransaction;
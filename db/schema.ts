@@ -1,6 +1,6 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, uniqueIndex, index, doublePrecision, numeric, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 export const activityTypes = pgEnum("activity_type", [
   "SYSTEM_ACTIVATION",
@@ -40,10 +40,51 @@ export const users = pgTable("users", {
   isSuperAdmin: boolean("is_super_admin").default(false).notNull(),
   isEnabled: boolean("is_enabled").default(true).notNull(),
   points: integer("points").default(0).notNull(),
+  // Null until first calculated, so the startup backfill can tell it apart from 0
+  qualifyingPoints: integer("qualifying_points"),
   referral_code: text("referral_code"),
   referred_by: text("referred_by"),
   resetToken: text("reset_token"),
   resetTokenExpiry: timestamp("reset_token_expiry"),
+  // Where physical rewards are sent
+  deliveryAddress: jsonb("delivery_address").$type<DeliveryAddress>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type DeliveryAddress = {
+  line1: string;
+  line2?: string;
+  suburb?: string;
+  city: string;
+  province: string;
+  postalCode: string;
+};
+
+export const tiers = pgTable("tiers", {
+  id: serial("id").primaryKey(),
+  name: text("name").unique().notNull(),
+  threshold: integer("threshold").notNull(),
+  color: text("color").notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  // Points earned per Rand of each spend type
+  premiumMultiplier: doublePrecision("premium_multiplier").default(0).notNull(),
+  cardMultiplier: doublePrecision("card_multiplier").default(0).notNull(),
+  posMultiplier: doublePrecision("pos_multiplier").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const tierChangeDirections = pgEnum("tier_change_direction", ["UPGRADE", "DOWNGRADE"]);
+
+// Tier names are copied rather than referenced so history survives tier edits
+export const tierHistory = pgTable("tier_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  fromTier: text("from_tier").notNull(),
+  toTier: text("to_tier").notNull(),
+  direction: tierChangeDirections("direction").notNull(),
+  qualifyingPoints: integer("qualifying_points").notNull(),
+  reason: text("reason").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -63,25 +104,66 @@ export const productAssignments = pgTable("product_assignments", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// CASH pays out randValue; PHYSICAL needs a delivery address; VOUCHER and
+// EXPERIENCE are fulfilled as soon as they are redeemed. Rewards from before
+// types existed behave as experiences.
+export const rewardTypes = pgEnum("reward_type", ["VOUCHER", "PHYSICAL", "CASH", "EXPERIENCE"]);
+
+// Rolling window a per-customer limit counts redemptions over
+export const rewardLimitPeriods = pgEnum("reward_limit_period", ["WEEK", "MONTH", "YEAR", "LIFETIME"]);
+
 export const rewards = pgTable("rewards", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   description: text("description").notNull(),
+  type: rewardTypes("type").default("EXPERIENCE").notNull(),
   pointsCost: integer("points_cost").notNull(),
+  randValue: numeric("rand_value", { precision: 12, scale: 2 }),
   imageUrl: text("image_url").notNull(),
+  // Uploaded images have a small copy for lists; pasted URLs from before don't
+  thumbnailUrl: text("thumbnail_url"),
   available: boolean("available").default(true).notNull(),
+  // Null stock is unlimited. A reward is made unavailable when it sells out.
+  stock: integer("stock"),
+  lowStockThreshold: integer("low_stock_threshold").default(5).notNull(),
+  limitPerCustomer: integer("limit_per_customer"),
+  limitPeriod: rewardLimitPeriods("limit_period").default("LIFETIME").notNull(),
+  availableFrom: timestamp("available_from"),
+  availableUntil: timestamp("available_until"),
+  // Deleted rewards are kept for the transactions that reference them
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Codes handed out by VOUCHER rewards. A code is claimed by the redemption
+// that receives it and is never handed out again.
+export const voucherCodes = pgTable("voucher_codes", {
+  id: serial("id").primaryKey(),
+  rewardId: integer("reward_id").references(() => rewards.id, { onDelete: 'cascade' }).notNull(),
+  code: text("code").notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id),
+  claimedBy: integer("claimed_by").references(() => users.id),
+  claimedAt: timestamp("claimed_at"),
+  uploadedBy: integer("uploaded_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("voucher_codes_reward_code_idx").on(table.rewardId, table.code),
+  index("voucher_codes_reward_claimed_idx").on(table.rewardId, table.claimedAt),
+]);
+
 export const transactionTypes = pgEnum("transaction_type", [
   "EARNED",
   "REDEEMED",
   "ADMIN_ADJUSTMENT",
   "CASH_REDEMPTION",
   "WELCOME_BONUS",
-  "REFERRAL_BONUS"
+  "REFERRAL_BONUS",
+  "EXPIRED",
+  "REFUND"
 ]);
 
+export const spendTypes = pgEnum("spend_type", ["PREMIUM", "CARD", "POS"]);
+
 export const transactionStatus = pgEnum("transaction_status", ["PENDING", "PROCESSED"]);
 
 export const transactions = pgTable("transactions", {
@@ -94,9 +176,252 @@ export const transactions = pgTable("transactions", {
   status: transactionStatus("status").default("PENDING"),
   processedAt: timestamp("processed_at"),
   processedBy: integer("processed_by").references(() => users.id),
+  externalSource: text("external_source"),
+  externalRef: text("external_ref"),
+  // The activity event a transaction was for, so a replay can be checked against it
+  productId: integer("product_id").references(() => products.id),
+  activityType: activityTypes("activity_type"),
+  occurredAt: timestamp("occurred_at"),
+  spendType: spendTypes("spend_type"),
+  randAmount: numeric("rand_amount", { precision: 12, scale: 2 }),
+  multiplier: doublePrecision("multiplier"),
+  tierName: text("tier_name"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("transactions_external_ref_idx").on(table.externalSource, table.externalRef),
+]);
+
+export const bankAccountTypes = pgEnum("bank_account_type", ["CHEQUE", "SAVINGS", "TRANSMISSION"]);
+
+export const payoutAccountStatuses = pgEnum("payout_account_status", ["PENDING_VERIFICATION", "VERIFIED", "REJECTED"]);
+
+// Bank details cash redemptions are paid into. The account number and holder
+// name are encrypted (see server/utils/encryption.ts); only the last four
+// digits are kept in the clear for display. Replacing the details archives
+// the old row so past redemptions still point at the account they used.
+export const payoutAccounts = pgTable("payout_accounts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  bankName: text("bank_name").notNull(),
+  branchCode: text("branch_code").notNull(),
+  accountType: bankAccountTypes("account_type").notNull(),
+  accountNumberEncrypted: text("account_number_encrypted").notNull(),
+  accountNumberLast4: text("account_number_last4").notNull(),
+  holderNameEncrypted: text("holder_name_encrypted").notNull(),
+  status: payoutAccountStatuses("status").default("PENDING_VERIFICATION").notNull(),
+  rejectionReason: text("rejection_reason"),
+  verifiedBy: integer("verified_by").references(() => users.id),
+  verifiedAt: timestamp("verified_at"),
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("payout_accounts_active_user_idx").on(table.userId).where(sql`${table.archivedAt} is null`),
+]);
+
+// Rand paid out per point. The rate in force at a moment is the row with the
+// latest effectiveFrom at or before it, so scheduling a change never alters
+// what earlier redemptions were worth.
+export const conversionRates = pgTable("conversion_rates", {
+  id: serial("id").primaryKey(),
+  randPerPoint: numeric("rand_per_point", { precision: 10, scale: 5 }).notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  createdBy: integer("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("conversion_rates_effective_from_idx").on(table.effectiveFrom),
+]);
+
+export const cashRedemptionStatuses = pgEnum("cash_redemption_status", ["REQUESTED", "APPROVED", "IN_BATCH", "PAID", "REJECTED"]);
+
+export const payoutBatchStatuses = pgEnum("payout_batch_status", ["EXPORTED", "PAID"]);
+
+// A bulk EFT run. Approved redemptions are moved IN_BATCH when the batch is
+// created and all become PAID together when finance confirms the payment.
+export const payoutBatches = pgTable("payout_batches", {
+  id: serial("id").primaryKey(),
+  status: payoutBatchStatuses("status").default("EXPORTED").notNull(),
+  redemptionCount: integer("redemption_count").notNull(),
+  totalAmount: numeric("total_amount", { precision: 12, scale: 2 }).notNull(),
+  createdBy: integer("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  paidBy: integer("paid_by").references(() => users.id),
+  paidAt: timestamp("paid_at"),
 });
 
+// The points leave the balance when the request is made (transactionId).
+// A rejection credits them back with a REFUND transaction (refundTransactionId).
+export const cashRedemptions = pgTable("cash_redemptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id).notNull(),
+  payoutAccountId: integer("payout_account_id").references(() => payoutAccounts.id),
+  payoutBatchId: integer("payout_batch_id").references(() => payoutBatches.id),
+  points: integer("points").notNull(),
+  // Redemptions from before rates were configurable were all at R0.015
+  conversionRate: numeric("conversion_rate", { precision: 10, scale: 5 }).default("0.015").notNull(),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+  status: cashRedemptionStatuses("status").default("REQUESTED").notNull(),
+  rejectionReason: text("rejection_reason"),
+  refundTransactionId: integer("refund_transaction_id").references(() => transactions.id),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  paidBy: integer("paid_by").references(() => users.id),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("cash_redemptions_transaction_idx").on(table.transactionId),
+  index("cash_redemptions_status_idx").on(table.status, table.createdAt),
+  index("cash_redemptions_batch_idx").on(table.payoutBatchId),
+]);
+
+export const fulfilmentStatuses = pgEnum("fulfilment_status", ["ORDERED", "SHIPPED", "DELIVERED", "CANCELLED"]);
+
+// Delivery of a PHYSICAL reward. The address is copied from the customer's
+// profile when they redeem, so later profile changes don't move the parcel.
+// Cancelling refunds the points with a REFUND transaction (refundTransactionId).
+export const rewardFulfilments = pgTable("reward_fulfilments", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  rewardId: integer("reward_id").references(() => rewards.id).notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id).notNull(),
+  status: fulfilmentStatuses("status").default("ORDERED").notNull(),
+  deliveryAddress: jsonb("delivery_address").$type<DeliveryAddress>().notNull(),
+  courier: text("courier"),
+  trackingNumber: text("tracking_number"),
+  cancellationReason: text("cancellation_reason"),
+  refundTransactionId: integer("refund_transaction_id").references(() => transactions.id),
+  updatedBy: integer("updated_by").references(() => users.id),
+  shippedAt: timestamp("shipped_at"),
+  deliveredAt: timestamp("delivered_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("reward_fulfilments_transaction_idx").on(table.transactionId),
+  index("reward_fulfilments_status_idx").on(table.status, table.createdAt),
+]);
+
+// Every credit opens a lot; debits drain the oldest lots first and lapsed
+// lots are written off as EXPIRED transactions
+export const pointLots = pgTable("point_lots", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id, { onDelete: 'cascade' }),
+  points: integer("points").notNull(),
+  remaining: integer("remaining").notNull(),
+  earnedAt: timestamp("earned_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at"),
+  warnedAt: timestamp("warned_at"),
+  expiredAt: timestamp("expired_at"),
+});
+
+// How many points each debit took from each lot, so a refund can give them
+// back with the expiry they had
+export const pointLotConsumptions = pgTable("point_lot_consumptions", {
+  id: serial("id").primaryKey(),
+  lotId: integer("lot_id").references(() => pointLots.id, { onDelete: 'cascade' }).notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id, { onDelete: 'cascade' }).notNull(),
+  points: integer("points").notNull(),
+}, (table) => [
+  index("point_lot_consumptions_transaction_idx").on(table.transactionId),
+]);
+
+export const notificationTypes = pgEnum("notification_type", [
+  "POINTS_ADJUSTED",
+  "TIER_CHANGE",
+  "CASH_REDEMPTION_REQUESTED",
+  "CASH_REDEMPTION_PROCESSED",
+  "REWARD_FULFILLED",
+  "REFERRAL_JOINED",
+  "POINTS_EXPIRING",
+  "ADMIN_POINTS_ASSIGNED",
+  "CASH_REDEMPTION_APPROVED",
+  "CASH_REDEMPTION_REJECTED",
+  "PAYOUT_ACCOUNT_SUBMITTED",
+  "PAYOUT_ACCOUNT_REVIEWED",
+  "REWARD_LOW_STOCK",
+  "REWARD_FULFILMENT_UPDATED"
+]);
+
+export const notificationChannels = pgEnum("notification_channel", ["EMAIL", "IN_APP", "SMS"]);
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  type: notificationTypes("type").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().default({}).notNull(),
+  // Set once the notification has been pushed or polled, so it toasts only once
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("notifications_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+// Only choices that differ from the channel defaults need a row
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  eventType: notificationTypes("event_type").notNull(),
+  channel: notificationChannels("channel").notNull(),
+  enabled: boolean("enabled").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("notification_preferences_user_event_channel_idx").on(table.userId, table.eventType, table.channel),
+]);
+
+export const emailStatuses = pgEnum("email_status", ["PENDING", "SENT", "FAILED"]);
+
+// Written in the same transaction as the change the email reports on and
+// delivered by the outbox worker, so a slow or failing mail server never
+// holds up or loses a business write.
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  to: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  text: text("text"),
+  html: text("html"),
+  status: emailStatuses("status").default("PENDING").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("email_outbox_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+]);
+
+export const emailTemplateKeys = pgEnum("email_template_key", [
+  "POINTS_ASSIGNED",
+  "ADMIN_POINTS_ASSIGNED",
+  "TIER_UPGRADE",
+  "TIER_DOWNGRADE",
+  "POINTS_EXPIRING",
+  "PASSWORD_RESET",
+  "CASH_REDEMPTION_APPROVED",
+  "CASH_REDEMPTION_REJECTED",
+  "CASH_REDEMPTION_PAID",
+  "VOUCHER_REDEEMED",
+  "REWARD_SHIPPED",
+]);
+
+// Every save adds a version; the highest version of a key is the one sent.
+// Keys with no rows use the built-in template in server/email-templates.ts.
+export const emailTemplates = pgTable("email_templates", {
+  id: serial("id").primaryKey(),
+  key: emailTemplateKeys("key").notNull(),
+  version: integer("version").notNull(),
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html").notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("email_templates_key_version_idx").on(table.key, table.version),
+]);
+
 export const adminActionTypes = pgEnum("admin_action_type", [
   "POINT_ADJUSTMENT",
   "ADMIN_CREATED",
@@ -114,7 +439,27 @@ export const adminActionTypes = pgEnum("admin_action_type", [
   "PRODUCT_UPDATED",
   "PRODUCT_DELETED",
   "PRODUCT_ASSIGNED",
-  "PRODUCT_UNASSIGNED"
+  "PRODUCT_UNASSIGNED",
+  "TIER_CREATED",
+  "TIER_UPDATED",
+  "TIER_DELETED",
+  "EMAIL_RESENT",
+  "EMAIL_TEMPLATE_UPDATED",
+  "CASH_REDEMPTION_APPROVED",
+  "CASH_REDEMPTION_REJECTED",
+  "CASH_REDEMPTION_PAID",
+  "PAYOUT_ACCOUNT_VERIFIED",
+  "PAYOUT_ACCOUNT_REJECTED",
+  "PAYOUT_ACCOUNT_REVEALED",
+  "PAYOUT_BATCH_CREATED",
+  "PAYOUT_BATCH_EXPORTED",
+  "PAYOUT_BATCH_PAID",
+  "CONVERSION_RATE_SCHEDULED",
+  "CONVERSION_RATE_CANCELLED",
+  "VOUCHER_CODES_UPLOADED",
+  "FULFILMENT_SHIPPED",
+  "FULFILMENT_DELIVERED",
+  "FULFILMENT_CANCELLED"
 ]);
 
 export const adminLogs = pgTable("admin_logs", {
@@ -143,6 +488,13 @@ export const userRelations = relations(users, ({ many, one }) => ({
   adminLogsCreated: many(adminLogs, { relationName: "adminLogsCreated" }),
   adminLogsTarget: many(adminLogs, { relationName: "adminLogsTarget" }),
   productAssignments: many(productAssignments),
+  tierHistory: many(tierHistory),
+  pointLots: many(pointLots),
+  notifications: many(notifications),
+  notificationPreferences: many(notificationPreferences),
+  emails: many(emailOutbox),
+  cashRedemptions: many(cashRedemptions, { relationName: "cashRedemptionCustomer" }),
+  payoutAccounts: many(payoutAccounts, { relationName: "payoutAccountOwner" }),
   referralStats: one(referralStats, {
     fields: [users.id],
     references: [referralStats.userId],
@@ -179,6 +531,144 @@ export const transactionRelations = relations(transactions, ({ one }) => ({
     fields: [transactions.rewardId],
     references: [rewards.id],
   }),
+  voucherCode: one(voucherCodes),
+  fulfilment: one(rewardFulfilments),
+}));
+
+export const voucherCodeRelations = relations(voucherCodes, ({ one }) => ({
+  reward: one(rewards, {
+    fields: [voucherCodes.rewardId],
+    references: [rewards.id],
+  }),
+  transaction: one(transactions, {
+    fields: [voucherCodes.transactionId],
+    references: [transactions.id],
+  }),
+  claimer: one(users, {
+    fields: [voucherCodes.claimedBy],
+    references: [users.id],
+  }),
+  uploader: one(users, {
+    fields: [voucherCodes.uploadedBy],
+    references: [users.id],
+  }),
+}));
+
+export const cashRedemptionRelations = relations(cashRedemptions, ({ one }) => ({
+  user: one(users, {
+    fields: [cashRedemptions.userId],
+    references: [users.id],
+    relationName: "cashRedemptionCustomer"
+  }),
+  transaction: one(transactions, {
+    fields: [cashRedemptions.transactionId],
+    references: [transactions.id],
+  }),
+  reviewer: one(users, {
+    fields: [cashRedemptions.reviewedBy],
+    references: [users.id],
+  }),
+  payer: one(users, {
+    fields: [cashRedemptions.paidBy],
+    references: [users.id],
+  }),
+  payoutAccount: one(payoutAccounts, {
+    fields: [cashRedemptions.payoutAccountId],
+    references: [payoutAccounts.id],
+  }),
+  payoutBatch: one(payoutBatches, {
+    fields: [cashRedemptions.payoutBatchId],
+    references: [payoutBatches.id],
+  }),
+}));
+
+export const rewardFulfilmentRelations = relations(rewardFulfilments, ({ one }) => ({
+  user: one(users, {
+    fields: [rewardFulfilments.userId],
+    references: [users.id],
+  }),
+  reward: one(rewards, {
+    fields: [rewardFulfilments.rewardId],
+    references: [rewards.id],
+  }),
+  transaction: one(transactions, {
+    fields: [rewardFulfilments.transactionId],
+    references: [transactions.id],
+  }),
+  updater: one(users, {
+    fields: [rewardFulfilments.updatedBy],
+    references: [users.id],
+  }),
+}));
+
+export const conversionRateRelations = relations(conversionRates, ({ one }) => ({
+  creator: one(users, {
+    fields: [conversionRates.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const payoutBatchRelations = relations(payoutBatches, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [payoutBatches.createdBy],
+    references: [users.id],
+  }),
+  payer: one(users, {
+    fields: [payoutBatches.paidBy],
+    references: [users.id],
+  }),
+  redemptions: many(cashRedemptions),
+}));
+
+export const payoutAccountRelations = relations(payoutAccounts, ({ one }) => ({
+  user: one(users, {
+    fields: [payoutAccounts.userId],
+    references: [users.id],
+    relationName: "payoutAccountOwner"
+  }),
+  verifier: one(users, {
+    fields: [payoutAccounts.verifiedBy],
+    references: [users.id],
+  }),
+}));
+
+export const pointLotRelations = relations(pointLots, ({ one }) => ({
+  user: one(users, {
+    fields: [pointLots.userId],
+    references: [users.id],
+  }),
+  transaction: one(transactions, {
+    fields: [pointLots.transactionId],
+    references: [transactions.id],
+  }),
+}));
+
+export const notificationRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationPreferenceRelations = relations(notificationPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
+export const emailOutboxRelations = relations(emailOutbox, ({ one }) => ({
+  user: one(users, {
+    fields: [emailOutbox.userId],
+    references: [users.id],
+  }),
+}));
+
+export const emailTemplateRelations = relations(emailTemplates, ({ one }) => ({
+  author: one(users, {
+    fields: [emailTemplates.createdBy],
+    references: [users.id],
+  }),
 }));
 
 export const adminLogRelations = relations(adminLogs, ({ one }) => ({
@@ -194,6 +684,13 @@ export const adminLogRelations = relations(adminLogs, ({ one }) => ({
   }),
 }));
 
+export const tierHistoryRelations = relations(tierHistory, ({ one }) => ({
+  user: one(users, {
+    fields: [tierHistory.userId],
+    references: [users.id],
+  }),
+}));
+
 export const referralStatsRelations = relations(referralStats, ({ one }) => ({
   user: one(users, {
     fields: [referralStats.userId],
@@ -209,12 +706,38 @@ export const insertUserSchema = createInsertSchema(users);
 export const selectUserSchema = createSelectSchema(users);
 export const insertRewardSchema = createInsertSchema(rewards);
 export const selectRewardSchema = createSelectSchema(rewards);
+export const insertVoucherCodeSchema = createInsertSchema(voucherCodes);
+export const selectVoucherCodeSchema = createSelectSchema(voucherCodes);
 export const insertTransactionSchema = createInsertSchema(transactions);
 export const selectTransactionSchema = createSelectSchema(transactions);
+export const insertCashRedemptionSchema = createInsertSchema(cashRedemptions);
+export const selectCashRedemptionSchema = createSelectSchema(cashRedemptions);
+export const insertPayoutAccountSchema = createInsertSchema(payoutAccounts);
+export const selectPayoutAccountSchema = createSelectSchema(payoutAccounts);
+export const insertConversionRateSchema = createInsertSchema(conversionRates);
+export const selectConversionRateSchema = createSelectSchema(conversionRates);
+export const insertPayoutBatchSchema = createInsertSchema(payoutBatches);
+export const selectPayoutBatchSchema = createSelectSchema(payoutBatches);
+export const insertRewardFulfilmentSchema = createInsertSchema(rewardFulfilments);
+export const selectRewardFulfilmentSchema = createSelectSchema(rewardFulfilments);
+export const insertPointLotSchema = createInsertSchema(pointLots);
+export const selectPointLotSchema = createSelectSchema(pointLots);
+export const insertNotificationSchema = createInsertSchema(notifications);
+export const selectNotificationSchema = createSelectSchema(notifications);
+export const insertNotificationPreferenceSchema = createInsertSchema(notificationPreferences);
+export const selectNotificationPreferenceSchema = createSelectSchema(notificationPreferences);
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox);
+export const selectEmailOutboxSchema = createSelectSchema(emailOutbox);
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates);
+export const selectEmailTemplateSchema = createSelectSchema(emailTemplates);
 export const insertAdminLogSchema = createInsertSchema(adminLogs);
 export const selectAdminLogSchema = createSelectSchema(adminLogs);
 export const insertProductAssignmentSchema = createInsertSchema(productAssignments);
 export const selectProductAssignmentSchema = createSelectSchema(productAssignments);
+export const insertTierSchema = createInsertSchema(tiers);
+export const selectTierSchema = createSelectSchema(tiers);
+export const insertTierHistorySchema = createInsertSchema(tierHistory);
+export const selectTierHistorySchema = createSelectSchema(tierHistory);
 export const insertReferralStatsSchema = createInsertSchema(referralStats);
 export const selectReferralStatsSchema = createSelectSchema(referralStats);
 
@@ -226,11 +749,37 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 export type Reward = typeof rewards.$inferSelect;
 export type InsertReward = typeof rewards.$inferInsert;
+export type VoucherCode = typeof voucherCodes.$inferSelect;
+export type InsertVoucherCode = typeof voucherCodes.$inferInsert;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = typeof transactions.$inferInsert;
+export type CashRedemption = typeof cashRedemptions.$inferSelect;
+export type InsertCashRedemption = typeof cashRedemptions.$inferInsert;
+export type PayoutAccount = typeof payoutAccounts.$inferSelect;
+export type InsertPayoutAccount = typeof payoutAccounts.$inferInsert;
+export type ConversionRate = typeof conversionRates.$inferSelect;
+export type InsertConversionRate = typeof conversionRates.$inferInsert;
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
+export type InsertPayoutBatch = typeof payoutBatches.$inferInsert;
+export type RewardFulfilment = typeof rewardFulfilments.$inferSelect;
+export type InsertRewardFulfilment = typeof rewardFulfilments.$inferInsert;
+export type PointLot = typeof pointLots.$inferSelect;
+export type InsertPointLot = typeof pointLots.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreference = typeof notificationPreferences.$inferInsert;
+export type EmailOutbox = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutbox = typeof emailOutbox.$inferInsert;
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type InsertEmailTemplate = typeof emailTemplates.$inferInsert;
 export type AdminLog = typeof adminLogs.$inferSelect;
 export type InsertAdminLog = typeof adminLogs.$inferInsert;
 export type ProductAssignment = typeof productAssignments.$inferSelect;
 export type InsertProductAssignment = typeof productAssignments.$inferInsert;
+export type Tier = typeof tiers.$inferSelect;
+export type InsertTier = typeof tiers.$inferInsert;
+export type TierHistory = typeof tierHistory.$inferSelect;
+export type InsertTierHistory = typeof tierHistory.$inferInsert;
 export type ReferralStats = typeof referralStats.$inferSelect;
 export type InsertReferralStats = typeof referralStats.$inferInsert;
\ No newline at end of file
@@ -0,0 +1,188 @@
+import type { Request } from "express";
+import { timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { db, type DbExecutor } from "@db";
+import { users, transactions, productAssignments, product_activities, activityTypes, type Transaction } from "@db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { refreshQualifyingPoints, notifyTierChange } from "./tiers";
+import { trackPointLots } from "./point-lots";
+import { notify } from "./notifications";
+
+export const activityEventSchema = z.object({
+  userId: z.coerce.number().int().positive(),
+  productId: z.coerce.number().int().positive(),
+  type: z.enum(activityTypes.enumValues),
+  externalRef: z.string().trim().min(1, "External reference is required"),
+  source: z.string().trim().min(1).default("policy-admin"),
+  occurredAt: z.coerce.date(),
+});
+
+export type ActivityEvent = z.infer<typeof activityEventSchema>;
+
+export class ActivityEventError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ActivityEventError";
+  }
+}
+
+// Events are accepted from logged-in admins or from an upstream system
+// presenting the shared key configured in ACTIVITY_EVENTS_API_KEY
+export function isTrustedEventSource(req: Request) {
+  const configuredKey = process.env.ACTIVITY_EVENTS_API_KEY;
+  const suppliedKey = req.get("x-api-key");
+  if (!configuredKey || !suppliedKey) return false;
+
+  const expected = Buffer.from(configuredKey);
+  const supplied = Buffer.from(suppliedKey);
+  return expected.length === supplied.length && timingSafeEqual(expected, supplied);
+}
+
+function formatActivityType(type: string) {
+  return type.toLowerCase().replace(/_/g, " ");
+}
+
+function formatEventDate(event: ActivityEvent) {
+  return event.occurredAt.toISOString().slice(0, 10);
+}
+
+// Whether a stored transaction is the same event being delivered again.
+// Transactions from before the event details were recorded only have the
+// customer to compare.
+function isSameEvent(original: Transaction, event: ActivityEvent) {
+  return original.userId === event.userId
+    && (original.productId === null || original.productId === event.productId)
+    && (original.activityType === null || original.activityType === event.type)
+    && (original.occurredAt === null || original.occurredAt.getTime() === event.occurredAt.getTime());
+}
+
+// Finds an earlier delivery of the event. A reference that was already used
+// for a different customer, product, type or date is rejected rather than
+// treated as a replay, so the sender finds out about the clash.
+async function findExistingEvent(event: ActivityEvent) {
+  const original = await db.query.transactions.findFirst({
+    where: and(
+      eq(transactions.externalSource, event.source),
+      eq(transactions.externalRef, event.externalRef)
+    ),
+  });
+
+  if (original && !isSameEvent(original, event)) {
+    throw new ActivityEventError(
+      `Event ${event.externalRef} from ${event.source} was already applied with different details`,
+      409
+    );
+  }
+  return original;
+}
+
+async function duplicateResult(event: ActivityEvent) {
+  const original = await findExistingEvent(event);
+  if (!original) {
+    throw new ActivityEventError("Duplicate event could not be resolved", 409);
+  }
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, original.userId),
+    columns: { points: true },
+  });
+
+  return { status: "duplicate" as const, transaction: original, balance: user?.points ?? 0 };
+}
+
+// Checks the customer holds the product and returns the activity points it earns
+async function resolveActivity(executor: DbExecutor, event: ActivityEvent) {
+  const assignment = await executor.query.productAssignments.findFirst({
+    where: and(
+      eq(productAssignments.userId, event.userId),
+      eq(productAssignments.productId, event.productId)
+    ),
+    with: {
+      product: true,
+    },
+  });
+
+  if (!assignment) {
+    throw new ActivityEventError("Customer is not assigned to this product", 404);
+  }
+
+  if (!assignment.product.isEnabled) {
+    throw new ActivityEventError("Product is disabled", 409);
+  }
+
+  const activity = await executor.query.product_activities.findFirst({
+    where: and(
+      eq(product_activities.productId, event.productId),
+      eq(product_activities.type, event.type)
+    ),
+  });
+
+  if (!activity || activity.pointsValue <= 0) {
+    throw new ActivityEventError(`No points are configured for ${formatActivityType(event.type)} on ${assignment.product.name}`, 422);
+  }
+
+  return { product: assignment.product, points: activity.pointsValue };
+}
+
+// Reports what applying an event would do, without writing anything
+export async function previewActivityEvent(event: ActivityEvent) {
+  if (await findExistingEvent(event)) {
+    return { status: "duplicate" as const, points: 0 };
+  }
+
+  const { points } = await resolveActivity(db, event);
+  return { status: "applied" as const, points };
+}
+
+// Applies an activity event exactly once per (source, externalRef). Replays
+// return the original transaction instead of crediting the customer again.
+export async function applyActivityEvent(event: ActivityEvent) {
+  if (await findExistingEvent(event)) {
+    return duplicateResult(event);
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const { product, points } = await resolveActivity(tx, event);
+
+    // A concurrent delivery of the same event loses the race on the unique index
+    const [transaction] = await tx.insert(transactions).values({
+      userId: event.userId,
+      points,
+      type: "EARNED",
+      description: `Points for ${formatActivityType(event.type)} on ${product.name} (${formatEventDate(event)})`,
+      externalSource: event.source,
+      externalRef: event.externalRef,
+      productId: event.productId,
+      activityType: event.type,
+      occurredAt: event.occurredAt,
+    })
+      .onConflictDoNothing({ target: [transactions.externalSource, transactions.externalRef] })
+      .returning();
+
+    if (!transaction) return null;
+
+    const [updatedUser] = await tx
+      .update(users)
+      .set({
+        points: sql`${users.points} + ${points}`,
+      })
+      .where(eq(users.id, event.userId))
+      .returning({ id: users.id, points: users.points });
+
+    await trackPointLots(tx, transaction);
+
+    const { tierChange } = await refreshQualifyingPoints(tx, event.userId, transaction.description);
+
+    return { status: "applied" as const, transaction, balance: updatedUser.points, tierChange };
+  });
+
+  if (!result) return duplicateResult(event);
+
+  const { tierChange, ...applied } = result;
+  await notify(event.userId, "POINTS_ADJUSTED", {
+    points: applied.transaction.points,
+    reason: applied.transaction.description,
+  });
+  await notifyTierChange(tierChange);
+  return applied;
+}
@@ -0,0 +1,164 @@
+import { parse } from 'csv-parse';
+import { stringify } from 'csv-stringify';
+import { db } from "@db";
+import { users, products } from "@db/schema";
+import { eq, sql } from "drizzle-orm";
+import {
+  activityEventSchema,
+  applyActivityEvent,
+  previewActivityEvent,
+  ActivityEventError,
+} from "./activity-events";
+
+// Source recorded against imported transactions, so a re-uploaded file is deduplicated
+export const ACTIVITY_IMPORT_SOURCE = "finance-import";
+
+export type ActivityImportRow = {
+  row: number;
+  customer: string;
+  product: string;
+  type: string;
+  externalRef: string;
+  points: number;
+  status: "applied" | "duplicate" | "error";
+  error?: string;
+};
+
+type CsvRecord = Record<string, string | undefined>;
+
+function parseCsv(csvData: string) {
+  return new Promise<CsvRecord[]>((resolve, reject) => {
+    parse(csvData, {
+      columns: true,
+      skip_empty_lines: true,
+      trim: true,
+    }, (err, records) => {
+      if (err) reject(err);
+      else resolve(records);
+    });
+  });
+}
+
+// Customers are matched by id when the value is numeric, otherwise by email
+async function findCustomer(value: string) {
+  const [user] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(/^\d+$/.test(value)
+      ? eq(users.id, parseInt(value))
+      : sql`lower(${users.email}) = lower(${value})`)
+    .limit(1);
+  return user;
+}
+
+// Products are matched by id when the value is numeric, otherwise by name
+async function findProduct(value: string) {
+  const [product] = await db
+    .select({ id: products.id })
+    .from(products)
+    .where(/^\d+$/.test(value)
+      ? eq(products.id, parseInt(value))
+      : sql`lower(${products.name}) = lower(${value})`)
+    .limit(1);
+  return product;
+}
+
+export async function importActivityEvents(csvData: string, { dryRun }: { dryRun: boolean }) {
+  const records = await parseCsv(csvData);
+  const customerIds = new Map<string, number | undefined>();
+  const productIds = new Map<string, number | undefined>();
+  const seenRefs = new Set<string>();
+  const rows: ActivityImportRow[] = [];
+
+  for (let index = 0; index < records.length; index++) {
+    const record = records[index];
+    const row: ActivityImportRow = {
+      row: index + 2, // header is line 1
+      customer: record.customer || "",
+      product: record.product || "",
+      type: (record.type || "").toUpperCase(),
+      externalRef: record.externalRef || "",
+      points: 0,
+      status: "error",
+    };
+    rows.push(row);
+
+    try {
+      if (!customerIds.has(row.customer)) {
+        customerIds.set(row.customer, row.customer ? (await findCustomer(row.customer))?.id : undefined);
+      }
+      if (!productIds.has(row.product)) {
+        productIds.set(row.product, row.product ? (await findProduct(row.product))?.id : undefined);
+      }
+
+      const userId = customerIds.get(row.customer);
+      const productId = productIds.get(row.product);
+      if (!userId) {
+        row.error = `Customer not found: ${row.customer || "(blank)"}`;
+        continue;
+      }
+      if (!productId) {
+        row.error = `Product not found: ${row.product || "(blank)"}`;
+        continue;
+      }
+
+      const parsed = activityEventSchema.safeParse({
+        userId,
+        productId,
+        type: row.type,
+        externalRef: row.externalRef,
+        occurredAt: record.occurredAt,
+        source: ACTIVITY_IMPORT_SOURCE,
+      });
+      if (!parsed.success) {
+        row.error = parsed.error.errors
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; ");
+        continue;
+      }
+
+      // Repeated references within the file only count once
+      if (seenRefs.has(parsed.data.externalRef)) {
+        row.status = "duplicate";
+        continue;
+      }
+      seenRefs.add(parsed.data.externalRef);
+
+      if (dryRun) {
+        const preview = await previewActivityEvent(parsed.data);
+        row.status = preview.status;
+        row.points = preview.points;
+      } else {
+        const result = await applyActivityEvent(parsed.data);
+        row.status = result.status;
+        row.points = result.status === "applied" ? result.transaction.points : 0;
+      }
+    } catch (error) {
+      if (!(error instanceof ActivityEventError)) {
+        console.error(`Error importing activity row ${row.row}:`, error);
+      }
+      row.error = error instanceof Error ? error.message : "Unknown error";
+    }
+  }
+
+  return {
+    dryRun,
+    applied: rows.filter((r) => r.status === "applied").length,
+    duplicates: rows.filter((r) => r.status === "duplicate").length,
+    failed: rows.filter((r) => r.status === "error").length,
+    totalPoints: rows.reduce((sum, r) => sum + (r.status === "applied" ? r.points : 0), 0),
+    rows,
+  };
+}
+
+export function formatActivityImportResults(rows: ActivityImportRow[]) {
+  return new Promise<string>((resolve, reject) => {
+    stringify(rows.map((r) => ({ ...r, error: r.error || "" })), {
+      header: true,
+      columns: ['row', 'customer', 'product', 'type', 'externalRef', 'points', 'status', 'error'],
+    }, (err, output) => {
+      if (err) reject(err);
+      else resolve(output);
+    });
+  });
+}
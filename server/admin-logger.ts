@@ -1,9 +1,9 @@
 import { db } from "@db";
-import { adminLogs, type User } from "@db/schema";
+import { adminLogs, adminActionTypes, type User } from "@db/schema";
 
 type AdminAction = {
   adminId: number;
-  actionType: "POINT_ADJUSTMENT" | "ADMIN_CREATED" | "ADMIN_REMOVED" | "REWARD_CREATED" | "REWARD_UPDATED" | "REWARD_DELETED";
+  actionType: (typeof adminActionTypes.enumValues)[number];
   targetUserId?: number;
   details: string;
 };
@@ -9,6 +9,9 @@ import { users, transactions } from "@db/schema";
 import { db } from "@db";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
+import { refreshQualifyingPoints, notifyTierChange } from "./tiers";
+import { trackPointLots } from "./point-lots";
+import { notify } from "./notifications";
 
 const scryptAsync = promisify(scrypt);
 const MemoryStore = createMemoryStore(session);
@@ -52,21 +55,24 @@ export const crypto = {
 
 export { crypto as authCrypto };
 
+// Shared with the WebSocket server so upgrades see the same session
+export const sessionMiddleware = session({
+  secret: process.env.SESSION_SECRET || 'your-secret-key',
+  resave: false,
+  saveUninitialized: false,
+  store: new MemoryStore({
+    checkPeriod: 86400000 // 24h
+  }),
+  cookie: {
+    secure: false,
+    httpOnly: true,
+    maxAge: 24 * 60 * 60 * 1000,
+    sameSite: 'lax'
+  }
+});
+
 export async function setupAuth(app: Express) {
-  app.use(session({
-    secret: process.env.SESSION_SECRET || 'your-secret-key',
-    resave: false,
-    saveUninitialized: false,
-    store: new MemoryStore({
-      checkPeriod: 86400000 // 24h
-    }),
-    cookie: {
-      secure: false,
-      httpOnly: true,
-      maxAge: 24 * 60 * 60 * 1000,
-      sameSite: 'lax'
-    }
-  }));
+  app.use(sessionMiddleware);
 
   app.use(passport.initialize());
   app.use(passport.session());
@@ -181,7 +187,7 @@ export async function setupAuth(app: Express) {
 
       const hashedPassword = await crypto.hashPassword(password);
 
-      const newUser = await db.transaction(async (tx) => {
+      const { newUser, referrerTierChange } = await db.transaction(async (tx) => {
         const [user] = await tx
           .insert(users)
           .values({
@@ -199,14 +205,17 @@ export async function setupAuth(app: Express) {
           })
           .returning();
 
-        await tx
+        const [welcomeBonus] = await tx
           .insert(transactions)
           .values({
             userId: user.id,
             points: 2000,
             type: "WELCOME_BONUS",
             description: "Welcome bonus for new registration",
-          });
+          })
+          .returning();
+
+        await trackPointLots(tx, welcomeBonus);
 
         if (referrerUser) {
           await tx
@@ -214,19 +223,33 @@ export async function setupAuth(app: Express) {
             .set({ points: referrerUser.points + 2500 })
             .where(eq(users.id, referrerUser.id));
 
-          await tx
+          const [referralBonus] = await tx
             .insert(transactions)
             .values({
               userId: referrerUser.id,
               points: 2500,
               type: "REFERRAL_BONUS",
               description: `Referral bonus for referring ${email}`,
-            });
+            })
+            .returning();
+
+          await trackPointLots(tx, referralBonus);
+
+          const { tierChange } = await refreshQualifyingPoints(tx, referrerUser.id, `Referral bonus for referring ${email}`);
+          return { newUser: user, referrerTierChange: tierChange };
         }
 
-        return user;
+        return { newUser: user, referrerTierChange: null };
       });
 
+      if (referrerUser) {
+        await notify(referrerUser.id, "REFERRAL_JOINED", {
+          referredName: `${firstName} ${lastName}`,
+          bonusPoints: 2500,
+        });
+      }
+      await notifyTierChange(referrerTierChange);
+
       req.login(newUser, (err) => {
         if (err) {
           console.error('Login error after registration:', err);
@@ -0,0 +1,324 @@
+import { db, type DbExecutor } from "@db";
+import { cashRedemptions, cashRedemptionStatuses, transactions, users, type CashRedemption, type Transaction } from "@db/schema";
+import { and, desc, eq, gt, isNull, ne, sql } from "drizzle-orm";
+import { trackPointLots } from "./point-lots";
+import { notify, queueNotificationEmail } from "./notifications";
+import { renderEmailTemplate } from "./email-templates";
+import { logAdminAction } from "./admin-logger";
+import { toPayoutAccountView } from "./payout-accounts";
+import { DEFAULT_RAND_PER_POINT, pointsToRand } from "./conversion-rates";
+
+export type CashRedemptionStatus = (typeof cashRedemptionStatuses.enumValues)[number];
+
+// Where a redemption may go next. PAID and REJECTED are final.
+const CASH_REDEMPTION_TRANSITIONS: Record<CashRedemptionStatus, CashRedemptionStatus[]> = {
+  REQUESTED: ["APPROVED", "REJECTED"],
+  APPROVED: ["IN_BATCH", "PAID", "REJECTED"],
+  IN_BATCH: ["PAID"],
+  PAID: [],
+  REJECTED: [],
+};
+
+export class CashRedemptionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "CashRedemptionError";
+  }
+}
+
+export function isCashRedemptionStatus(status: string): status is CashRedemptionStatus {
+  return (cashRedemptionStatuses.enumValues as readonly string[]).includes(status);
+}
+
+// Limits on what a customer can cash out. Amounts are in Rand so they hold
+// when the conversion rate changes; 0 switches a limit off.
+export const CASH_REDEMPTION_LIMITS = {
+  minimumRand: Number(process.env.CASH_REDEMPTION_MIN_RAND ?? 50),
+  dailyCapRand: Number(process.env.CASH_REDEMPTION_DAILY_CAP_RAND ?? 1000),
+  monthlyCapRand: Number(process.env.CASH_REDEMPTION_MONTHLY_CAP_RAND ?? 5000),
+  // Days after registering before a customer can redeem cash. Referred
+  // accounts wait longer as referral bonuses are the usual target of abuse.
+  coolingOffDays: Number(process.env.CASH_REDEMPTION_COOLING_OFF_DAYS ?? 7),
+  referredCoolingOffDays: Number(process.env.CASH_REDEMPTION_REFERRED_COOLING_OFF_DAYS ?? 30),
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const formatRand = (value: number) => `R${value.toFixed(2)}`;
+
+// Caps are rolling: the last 24 hours and the last 30 days. Rejected
+// redemptions were refunded, so they do not count.
+export async function getCashRedemptionAllowance(executor: DbExecutor, userId: number, now: Date = new Date()) {
+  const [customer] = await executor
+    .select({ createdAt: users.createdAt, referredBy: users.referred_by })
+    .from(users)
+    .where(eq(users.id, userId));
+
+  const [totals] = await executor
+    .select({
+      day: sql<string>`coalesce(sum(${cashRedemptions.amount}) filter (where ${cashRedemptions.createdAt} > ${new Date(now.getTime() - DAY)}), 0)`,
+      month: sql<string>`coalesce(sum(${cashRedemptions.amount}), 0)`,
+    })
+    .from(cashRedemptions)
+    .where(and(
+      eq(cashRedemptions.userId, userId),
+      ne(cashRedemptions.status, "REJECTED"),
+      gt(cashRedemptions.createdAt, new Date(now.getTime() - 30 * DAY))
+    ));
+
+  const { minimumRand, dailyCapRand, monthlyCapRand, coolingOffDays, referredCoolingOffDays } = CASH_REDEMPTION_LIMITS;
+  const waitDays = customer?.referredBy ? referredCoolingOffDays : coolingOffDays;
+  const coolingOffUntil = customer && waitDays > 0
+    ? new Date(customer.createdAt.getTime() + waitDays * DAY)
+    : null;
+
+  return {
+    minimumRand,
+    dailyCapRand,
+    dailyRemainingRand: dailyCapRand > 0 ? Math.max(0, dailyCapRand - Number(totals.day)) : null,
+    monthlyCapRand,
+    monthlyRemainingRand: monthlyCapRand > 0 ? Math.max(0, monthlyCapRand - Number(totals.month)) : null,
+    coolingOffUntil: coolingOffUntil && coolingOffUntil > now ? coolingOffUntil : null,
+  };
+}
+
+// Call inside the redemption's transaction after locking the customer's row,
+// so two requests at once cannot both squeeze under a cap
+export async function assertCashRedemptionAllowed(executor: DbExecutor, userId: number, amount: string) {
+  const allowance = await getCashRedemptionAllowance(executor, userId);
+  const rand = Number(amount);
+
+  if (allowance.coolingOffUntil) {
+    throw new CashRedemptionError(
+      `New accounts can redeem cash from ${allowance.coolingOffUntil.toLocaleDateString("en-ZA", { day: "numeric", month: "long", year: "numeric" })}`
+    );
+  }
+  if (allowance.minimumRand > 0 && rand < allowance.minimumRand) {
+    throw new CashRedemptionError(`The minimum cash redemption is ${formatRand(allowance.minimumRand)}. This request is worth R${amount}.`);
+  }
+  if (allowance.dailyRemainingRand !== null && rand > allowance.dailyRemainingRand) {
+    throw new CashRedemptionError(
+      `You can redeem up to ${formatRand(allowance.dailyCapRand)} in cash in any 24 hours. You have ${formatRand(allowance.dailyRemainingRand)} left.`
+    );
+  }
+  if (allowance.monthlyRemainingRand !== null && rand > allowance.monthlyRemainingRand) {
+    throw new CashRedemptionError(
+      `You can redeem up to ${formatRand(allowance.monthlyCapRand)} in cash in any 30 days. You have ${formatRand(allowance.monthlyRemainingRand)} left.`
+    );
+  }
+}
+
+// Call in the same transaction as the CASH_REDEMPTION debit, with the rate
+// the amount was worked out at so later rate changes leave it alone
+export async function createCashRedemption(
+  executor: DbExecutor,
+  debit: Transaction,
+  { conversionRate, amount }: { conversionRate: string; amount: string },
+  payoutAccountId: number
+) {
+  const [redemption] = await executor
+    .insert(cashRedemptions)
+    .values({
+      userId: debit.userId,
+      transactionId: debit.id,
+      payoutAccountId,
+      points: Math.abs(debit.points),
+      conversionRate,
+      amount,
+      createdAt: debit.createdAt,
+    })
+    .returning();
+
+  return redemption;
+}
+
+export async function listCashRedemptions(status?: CashRedemptionStatus) {
+  const redemptions = await db.query.cashRedemptions.findMany({
+    where: status ? eq(cashRedemptions.status, status) : undefined,
+    orderBy: [desc(cashRedemptions.createdAt)],
+    with: {
+      user: {
+        columns: { firstName: true, lastName: true, email: true },
+      },
+      reviewer: {
+        columns: { firstName: true, lastName: true },
+      },
+      payer: {
+        columns: { firstName: true, lastName: true },
+      },
+      payoutAccount: true,
+    },
+  });
+
+  return redemptions.map(({ payoutAccount, ...redemption }) => ({
+    ...redemption,
+    payoutAccount: payoutAccount ? toPayoutAccountView(payoutAccount) : null,
+  }));
+}
+
+const NEXT_STATUS_EVENTS = {
+  APPROVED: { notification: "CASH_REDEMPTION_APPROVED", template: "CASH_REDEMPTION_APPROVED", action: "CASH_REDEMPTION_APPROVED" },
+  REJECTED: { notification: "CASH_REDEMPTION_REJECTED", template: "CASH_REDEMPTION_REJECTED", action: "CASH_REDEMPTION_REJECTED" },
+  PAID: { notification: "CASH_REDEMPTION_PROCESSED", template: "CASH_REDEMPTION_PAID", action: "CASH_REDEMPTION_PAID" },
+} as const;
+
+export type NextCashRedemptionStatus = keyof typeof NEXT_STATUS_EVENTS;
+
+// Applies a state change to a redemption already locked by the caller.
+// Rejecting refunds the points with a REFUND transaction. The customer's
+// email is queued in the same transaction; call notifyCashRedemptionChange
+// once it commits.
+export async function applyCashRedemptionChange(
+  tx: DbExecutor,
+  current: CashRedemption,
+  next: NextCashRedemptionStatus,
+  adminId: number,
+  reason?: string
+) {
+  if (!CASH_REDEMPTION_TRANSITIONS[current.status].includes(next)) {
+    throw new CashRedemptionError(`Cannot move a ${current.status.toLowerCase().replace("_", " ")} cash redemption to ${next.toLowerCase()}`, 409);
+  }
+
+  const now = new Date();
+  const changes: Partial<CashRedemption> = { status: next };
+  if (next === "PAID") {
+    changes.paidBy = adminId;
+    changes.paidAt = now;
+  } else {
+    changes.reviewedBy = adminId;
+    changes.reviewedAt = now;
+  }
+
+  if (next === "REJECTED") {
+    changes.rejectionReason = reason!.trim();
+
+    await tx
+      .update(users)
+      .set({ points: sql`${users.points} + ${current.points}` })
+      .where(eq(users.id, current.userId));
+
+    const [refund] = await tx.insert(transactions).values({
+      userId: current.userId,
+      points: current.points,
+      type: "REFUND",
+      description: `Refund of rejected cash redemption of R${current.amount}`,
+      status: "PROCESSED",
+      processedAt: now,
+      processedBy: adminId,
+    }).returning();
+
+    await trackPointLots(tx, refund, current.transactionId);
+    changes.refundTransactionId = refund.id;
+  }
+
+  // Keep the debit's own status in step for older screens that read it
+  if (next === "PAID" || next === "REJECTED") {
+    await tx
+      .update(transactions)
+      .set({ status: "PROCESSED", processedAt: now, processedBy: adminId })
+      .where(eq(transactions.id, current.transactionId));
+  }
+
+  const [updated] = await tx
+    .update(cashRedemptions)
+    .set(changes)
+    .where(eq(cashRedemptions.id, current.id))
+    .returning();
+
+  const [customer] = await tx
+    .select({ email: users.email, firstName: users.firstName, lastName: users.lastName })
+    .from(users)
+    .where(eq(users.id, updated.userId));
+
+  const event = NEXT_STATUS_EVENTS[next];
+  const templateVariables = {
+    customer: { firstName: customer.firstName || "Valued Customer", lastName: customer.lastName || "" },
+    points: updated.points,
+    amount: updated.amount,
+    reason: updated.rejectionReason ?? "",
+  };
+  const email = await renderEmailTemplate(event.template, templateVariables);
+  await queueNotificationEmail(tx, updated.userId, event.notification, { to: customer.email, ...email });
+
+  return updated;
+}
+
+export async function notifyCashRedemptionChange(redemption: CashRedemption, next: NextCashRedemptionStatus) {
+  const payload = { redemptionId: redemption.id, points: redemption.points, amount: redemption.amount };
+  if (next === "REJECTED") {
+    await notify(redemption.userId, "CASH_REDEMPTION_REJECTED", { ...payload, reason: redemption.rejectionReason! });
+  } else {
+    await notify(redemption.userId, NEXT_STATUS_EVENTS[next].notification, payload);
+  }
+}
+
+// Moves a single redemption to its next state. Redemptions in a payout batch
+// are settled with the batch instead.
+export async function transitionCashRedemption(
+  id: number,
+  next: NextCashRedemptionStatus,
+  adminId: number,
+  reason?: string
+) {
+  if (next === "REJECTED" && !reason?.trim()) {
+    throw new CashRedemptionError("A reason is required to reject a cash redemption");
+  }
+
+  const redemption = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(cashRedemptions)
+      .where(eq(cashRedemptions.id, id))
+      .for("update");
+
+    if (!current) throw new CashRedemptionError("Cash redemption not found", 404);
+    if (current.status === "IN_BATCH") {
+      throw new CashRedemptionError(`This cash redemption is in payout batch #${current.payoutBatchId}. Mark the batch as paid instead.`, 409);
+    }
+
+    const updated = await applyCashRedemptionChange(tx, current, next, adminId, reason);
+
+    await logAdminAction({
+      adminId,
+      actionType: NEXT_STATUS_EVENTS[next].action,
+      targetUserId: updated.userId,
+      details: next === "REJECTED"
+        ? `Rejected cash redemption of R${updated.amount} (${updated.points} points) and refunded the points. Reason: ${updated.rejectionReason}`
+        : `Marked cash redemption of R${updated.amount} (${updated.points} points) as ${next.toLowerCase()}`,
+    });
+
+    return updated;
+  });
+
+  await notifyCashRedemptionChange(redemption, next);
+
+  return redemption;
+}
+
+// Creates redemption records for cash redemptions made before they were
+// tracked. PROCESSED ones are taken as paid.
+export async function backfillCashRedemptions() {
+  const untracked = await db
+    .select({ transaction: transactions })
+    .from(transactions)
+    .leftJoin(cashRedemptions, eq(cashRedemptions.transactionId, transactions.id))
+    .where(and(eq(transactions.type, "CASH_REDEMPTION"), isNull(cashRedemptions.id)));
+
+  for (const { transaction } of untracked) {
+    const paid = transaction.status === "PROCESSED";
+    await db
+      .insert(cashRedemptions)
+      .values({
+        userId: transaction.userId,
+        transactionId: transaction.id,
+        points: Math.abs(transaction.points),
+        conversionRate: DEFAULT_RAND_PER_POINT,
+        amount: pointsToRand(Math.abs(transaction.points), DEFAULT_RAND_PER_POINT),
+        status: paid ? "PAID" : "REQUESTED",
+        paidBy: paid ? transaction.processedBy : null,
+        paidAt: paid ? transaction.processedAt : null,
+        createdAt: transaction.createdAt,
+      })
+      .onConflictDoNothing();
+  }
+}
@@ -0,0 +1,119 @@
+import { db, type DbExecutor } from "@db";
+import { conversionRates } from "@db/schema";
+import { and, asc, desc, eq, gt, lte } from "drizzle-orm";
+import { z } from "zod";
+import { logAdminAction } from "./admin-logger";
+
+// The programme's original fixed rate, used until a super admin sets one
+export const DEFAULT_RAND_PER_POINT = "0.01500";
+
+export const conversionRateSchema = z.object({
+  randPerPoint: z.coerce.number()
+    .positive("Rate must be greater than 0")
+    .max(100, "Rate must be R100 per point or less")
+    .transform((value) => value.toFixed(5)),
+  // Omitted means straight away
+  effectiveFrom: z.coerce.date().optional(),
+});
+
+export class ConversionRateError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ConversionRateError";
+  }
+}
+
+// Rand amounts are rounded to the cent
+export function pointsToRand(points: number, randPerPoint: string) {
+  return (Math.round(points * Number(randPerPoint) * 100) / 100).toFixed(2);
+}
+
+export async function getConversionRate(executor: DbExecutor = db, at: Date = new Date()) {
+  const [rate] = await executor
+    .select()
+    .from(conversionRates)
+    .where(lte(conversionRates.effectiveFrom, at))
+    .orderBy(desc(conversionRates.effectiveFrom))
+    .limit(1);
+
+  return {
+    randPerPoint: rate?.randPerPoint ?? DEFAULT_RAND_PER_POINT,
+    effectiveFrom: rate?.effectiveFrom ?? null,
+  };
+}
+
+// The live rate plus the next scheduled change, if any, for display
+export async function getConversionRateSummary() {
+  const now = new Date();
+  const current = await getConversionRate(db, now);
+  const [next] = await db
+    .select({ randPerPoint: conversionRates.randPerPoint, effectiveFrom: conversionRates.effectiveFrom })
+    .from(conversionRates)
+    .where(gt(conversionRates.effectiveFrom, now))
+    .orderBy(asc(conversionRates.effectiveFrom))
+    .limit(1);
+
+  return { ...current, next: next ?? null };
+}
+
+export async function listConversionRates() {
+  return await db.query.conversionRates.findMany({
+    orderBy: [desc(conversionRates.effectiveFrom)],
+    with: {
+      creator: {
+        columns: { firstName: true, lastName: true },
+      },
+    },
+  });
+}
+
+// Rates can only start now or later; past redemptions keep the rate they used
+export async function scheduleConversionRate(details: z.infer<typeof conversionRateSchema>, adminId: number) {
+  const now = new Date();
+  const effectiveFrom = details.effectiveFrom ?? now;
+  if (effectiveFrom.getTime() < now.getTime() - 60 * 1000) {
+    throw new ConversionRateError("A new rate cannot take effect in the past");
+  }
+
+  const [rate] = await db
+    .insert(conversionRates)
+    .values({
+      randPerPoint: details.randPerPoint,
+      effectiveFrom: effectiveFrom < now ? now : effectiveFrom,
+      createdBy: adminId,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!rate) {
+    throw new ConversionRateError("Another rate already takes effect at that moment", 409);
+  }
+
+  await logAdminAction({
+    adminId,
+    actionType: "CONVERSION_RATE_SCHEDULED",
+    details: `Set the conversion rate to R${Number(rate.randPerPoint)} per point from ${rate.effectiveFrom.toISOString()}`,
+  });
+
+  return rate;
+}
+
+// Only rates that have not yet taken effect can be withdrawn
+export async function cancelConversionRate(id: number, adminId: number) {
+  const [rate] = await db
+    .delete(conversionRates)
+    .where(and(eq(conversionRates.id, id), gt(conversionRates.effectiveFrom, new Date())))
+    .returning();
+
+  if (!rate) {
+    throw new ConversionRateError("Scheduled rate not found or already in effect", 404);
+  }
+
+  await logAdminAction({
+    adminId,
+    actionType: "CONVERSION_RATE_CANCELLED",
+    details: `Cancelled the R${Number(rate.randPerPoint)} per point rate scheduled for ${rate.effectiveFrom.toISOString()}`,
+  });
+
+  return rate;
+}
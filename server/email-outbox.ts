@@ -0,0 +1,137 @@
+import { db, type DbExecutor } from "@db";
+import { emailOutbox, emailStatuses } from "@db/schema";
+import { and, asc, desc, eq, lte } from "drizzle-orm";
+import { sendEmail, type EmailParams } from "./utils/emailService";
+
+const OUTBOX_POLL_INTERVAL = 10 * 1000;
+const OUTBOX_BATCH_SIZE = 20;
+const OUTBOX_LIST_LIMIT = 200;
+// Attempts before a message is parked as FAILED for an admin to resend
+const EMAIL_MAX_ATTEMPTS = Number(process.env.EMAIL_MAX_ATTEMPTS || 8);
+const BASE_RETRY_DELAY = 60 * 1000;
+const MAX_RETRY_DELAY = 6 * 60 * 60 * 1000;
+// A claimed message is hidden from other workers for this long, so a
+// process that dies mid-send only delays it
+const CLAIM_TIMEOUT = 5 * 60 * 1000;
+
+export type EmailStatus = (typeof emailStatuses.enumValues)[number];
+
+// Call inside the transaction that makes the change the email reports on
+export async function queueEmail(executor: DbExecutor, email: EmailParams, userId?: number) {
+  const [queued] = await executor
+    .insert(emailOutbox)
+    .values({
+      userId,
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+    })
+    .returning();
+
+  return queued;
+}
+
+// 1 minute, 2, 4, ... capped at 6 hours
+function retryDelay(attempts: number) {
+  return Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+}
+
+async function claimEmail(id: number) {
+  const now = new Date();
+  const [email] = await db
+    .update(emailOutbox)
+    .set({ nextAttemptAt: new Date(now.getTime() + CLAIM_TIMEOUT) })
+    .where(and(
+      eq(emailOutbox.id, id),
+      eq(emailOutbox.status, "PENDING"),
+      lte(emailOutbox.nextAttemptAt, now)
+    ))
+    .returning();
+
+  return email;
+}
+
+export async function processEmailOutbox() {
+  const due = await db
+    .select({ id: emailOutbox.id })
+    .from(emailOutbox)
+    .where(and(eq(emailOutbox.status, "PENDING"), lte(emailOutbox.nextAttemptAt, new Date())))
+    .orderBy(asc(emailOutbox.nextAttemptAt))
+    .limit(OUTBOX_BATCH_SIZE);
+
+  for (const { id } of due) {
+    const email = await claimEmail(id);
+    if (!email) continue;
+
+    const attempts = email.attempts + 1;
+    try {
+      await sendEmail({
+        to: email.to,
+        subject: email.subject,
+        text: email.text ?? undefined,
+        html: email.html ?? undefined,
+      });
+
+      await db
+        .update(emailOutbox)
+        .set({ status: "SENT", attempts, lastError: null, sentAt: new Date() })
+        .where(eq(emailOutbox.id, id));
+    } catch (error) {
+      console.error(`Error sending email ${id} (attempt ${attempts}):`, error);
+
+      await db
+        .update(emailOutbox)
+        .set({
+          status: attempts >= EMAIL_MAX_ATTEMPTS ? "FAILED" : "PENDING",
+          attempts,
+          lastError: error instanceof Error ? error.message : String(error),
+          nextAttemptAt: new Date(Date.now() + retryDelay(attempts)),
+        })
+        .where(eq(emailOutbox.id, id));
+    }
+  }
+}
+
+export async function listEmailOutbox(status?: EmailStatus) {
+  return db.query.emailOutbox.findMany({
+    where: status ? eq(emailOutbox.status, status) : undefined,
+    orderBy: [desc(emailOutbox.createdAt)],
+    limit: OUTBOX_LIST_LIMIT,
+    with: {
+      user: {
+        columns: { firstName: true, lastName: true },
+      },
+    },
+  });
+}
+
+// Puts the message back at the front of the queue with a fresh set of attempts
+export async function resendEmail(id: number) {
+  const [email] = await db
+    .update(emailOutbox)
+    .set({ status: "PENDING", attempts: 0, lastError: null, nextAttemptAt: new Date() })
+    .where(eq(emailOutbox.id, id))
+    .returning();
+
+  return email;
+}
+
+export function startEmailOutboxWorker() {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processEmailOutbox();
+    } catch (error) {
+      console.error('Email outbox worker failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, OUTBOX_POLL_INTERVAL);
+}
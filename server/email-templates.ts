@@ -0,0 +1,419 @@
+import { db } from "@db";
+import { emailTemplates, emailTemplateKeys } from "@db/schema";
+import { desc, eq, max } from "drizzle-orm";
+import { z } from "zod";
+
+export type EmailTemplateKey = (typeof emailTemplateKeys.enumValues)[number];
+
+type TemplateCustomer = { firstName: string; lastName: string };
+
+// Values each template can reference, e.g. {{customer.firstName}}
+export type EmailTemplateVariables = {
+  POINTS_ASSIGNED: { customer: TemplateCustomer; points: number; reason: string; tier: string };
+  ADMIN_POINTS_ASSIGNED: { admin: { firstName: string }; customer: TemplateCustomer; points: number; reason: string };
+  TIER_UPGRADE: { customer: TemplateCustomer; fromTier: string; tier: string };
+  TIER_DOWNGRADE: { customer: TemplateCustomer; fromTier: string; tier: string };
+  POINTS_EXPIRING: { customer: TemplateCustomer; points: number; expiryDate: string };
+  PASSWORD_RESET: { resetLink: string };
+  CASH_REDEMPTION_APPROVED: { customer: TemplateCustomer; points: number; amount: string };
+  CASH_REDEMPTION_REJECTED: { customer: TemplateCustomer; points: number; amount: string; reason: string };
+  CASH_REDEMPTION_PAID: { customer: TemplateCustomer; points: number; amount: string };
+  VOUCHER_REDEEMED: { customer: TemplateCustomer; reward: string; points: number; code: string };
+  REWARD_SHIPPED: { customer: TemplateCustomer; reward: string; courier: string; trackingNumber: string };
+};
+
+type TemplateContent = { subject: string; text: string; html: string };
+
+type TemplateDefinition<K extends EmailTemplateKey> = {
+  label: string;
+  sample: EmailTemplateVariables[K];
+  defaults: TemplateContent;
+};
+
+const SAMPLE_CUSTOMER: TemplateCustomer = { firstName: "Thandi", lastName: "Mokoena" };
+
+const layout = (body: string) => `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+${body}
+</div>`;
+
+// Built-in templates, used until a super admin saves a version of their own
+const EMAIL_TEMPLATE_DEFINITIONS: { [K in EmailTemplateKey]: TemplateDefinition<K> } = {
+  POINTS_ASSIGNED: {
+    label: "Points assigned (customer)",
+    sample: { customer: SAMPLE_CUSTOMER, points: 1500, reason: "Monthly premium <Gold> bonus", tier: "Silver" },
+    defaults: {
+      subject: "Points Added to Your Account",
+      text: `Dear {{customer.firstName}},
+
+{{points}} points have been assigned to your account.
+Reason: {{reason}}
+
+Your current tier is: {{tier}}
+
+Thank you for your business!`,
+      html: layout(`  <h2>Points Assignment Notification</h2>
+  <p>Dear {{customer.firstName}},</p>
+  <p><strong>{{points}}</strong> points have been assigned to your account.</p>
+  <p><strong>Reason:</strong> {{reason}}</p>
+  <p><strong>Your current tier:</strong> {{tier}}</p>
+  <br/>
+  <p>Thank you for your business!</p>`),
+    },
+  },
+  ADMIN_POINTS_ASSIGNED: {
+    label: "Points assigned (admin confirmation)",
+    sample: { admin: { firstName: "Sipho" }, customer: SAMPLE_CUSTOMER, points: 1500, reason: "Monthly premium <Gold> bonus" },
+    defaults: {
+      subject: "Points Assignment Confirmation: {{customer.firstName}} {{customer.lastName}}",
+      text: `Hello {{admin.firstName}},
+
+Points Assignment Notification:
+Customer: {{customer.firstName}} {{customer.lastName}}
+Points: {{points}}
+Reason: {{reason}}`,
+      html: layout(`  <h2>Points Assignment Notification</h2>
+  <p>Hello {{admin.firstName}},</p>
+  <div style="margin: 20px 0; padding: 15px; border-left: 4px solid #0070f3;">
+    <p><strong>Customer:</strong> {{customer.firstName}} {{customer.lastName}}</p>
+    <p><strong>Points:</strong> {{points}}</p>
+    <p><strong>Reason:</strong> {{reason}}</p>
+  </div>`),
+    },
+  },
+  TIER_UPGRADE: {
+    label: "Tier upgrade",
+    sample: { customer: SAMPLE_CUSTOMER, fromTier: "Silver", tier: "Gold" },
+    defaults: {
+      subject: "Welcome to the {{tier}} tier",
+      text: `Dear {{customer.firstName}},
+
+Congratulations! You have moved up to the {{tier}} tier.
+Previous tier: {{fromTier}}
+New tier: {{tier}}
+
+Thank you for your business!`,
+      html: layout(`  <h2>Tier Upgrade Notification</h2>
+  <p>Dear {{customer.firstName}},</p>
+  <p>Congratulations! You have moved up to the {{tier}} tier.</p>
+  <p><strong>Previous tier:</strong> {{fromTier}}</p>
+  <p><strong>New tier:</strong> {{tier}}</p>
+  <br/>
+  <p>Thank you for your business!</p>`),
+    },
+  },
+  TIER_DOWNGRADE: {
+    label: "Tier downgrade",
+    sample: { customer: SAMPLE_CUSTOMER, fromTier: "Gold", tier: "Silver" },
+    defaults: {
+      subject: "Your tier has changed to {{tier}}",
+      text: `Dear {{customer.firstName}},
+
+Your membership has moved from the {{fromTier}} tier to the {{tier}} tier.
+Previous tier: {{fromTier}}
+New tier: {{tier}}
+
+Thank you for your business!`,
+      html: layout(`  <h2>Tier Change Notification</h2>
+  <p>Dear {{customer.firstName}},</p>
+  <p>Your membership has moved from the {{fromTier}} tier to the {{tier}} tier.</p>
+  <p><strong>Previous tier:</strong> {{fromTier}}</p>
+  <p><strong>New tier:</strong> {{tier}}</p>
+  <br/>
+  <p>Thank you for your business!</p>`),
+    },
+  },
+  POINTS_EXPIRING: {
+    label: "Points about to expire",
+    sample: { customer: SAMPLE_CUSTOMER, points: 4200, expiryDate: "30 November 2026" },
+    defaults: {
+      subject: "Your points are about to expire",
+      text: `Dear {{customer.firstName}},
+
+{{points}} of your points will expire on {{expiryDate}}.
+Redeem them before then to make sure you don't lose them.
+
+Thank you for your business!`,
+      html: layout(`  <h2>Points Expiry Reminder</h2>
+  <p>Dear {{customer.firstName}},</p>
+  <p><strong>{{points}}</strong> of your points will expire on <strong>{{expiryDate}}</strong>.</p>
+  <p>Redeem them before then to make sure you don't lose them.</p>
+  <br/>
+  <p>Thank you for your business!</p>`),
+    },
+  },
+  PASSWORD_RESET: {
+    label: "Password reset",
+    sample: { resetLink: "https://example.com/reset-password?token=sample" },
+    defaults: {
+      subject: "Password Reset Request",
+      text: `You requested a password reset. Click the following link to reset your password:
+{{resetLink}}
+
+This link will expire in 1 hour.
+
+If you didn't request this, please ignore this email.`,
+      html: `<h1>Password Reset Request</h1>
+<p>You requested a password reset. Click the following link to reset your password:</p>
+<p><a href="{{resetLink}}">{{resetLink}}</a></p>
+<p>This link will expire in 1 hour.</p>
+<p>If you didn't request this, please ignore this email.</p>`,
+    },
+  },
+  CASH_REDEMPTION_APPROVED: {
+    label: "Cash redemption approved",
+    sample: { customer: SAMPLE_CUSTOMER, points: 20000, amount: "300.00" },
+    defaults: {
+      subject: "Your cash redemption has been approved",
+      text: `Dear {{customer.firstName}},
+
+Your redemption of {{points}} points for R{{amount}} has been approved and will be paid out shortly.
+
+Thank you for your business!`,
+      html: layout(`  <h2>Cash Redemption Approved</h2>
+  <p>Dear {{customer.firstName}},</p>
+  <p>Your redemption of <strong>{{points}}</strong> points for <strong>R{{amount}}</strong> has been approved and will be paid out shortly.</p>
+  <br/>
+  <p>Thank you for your business!</p>`),
+    },
+  },
+  CASH_REDEMPTION_REJECTED: {
+    label: "Cash redemption rejected",
+    sample: { customer: SAMPLE_CUSTOMER, points: 20000, amount: "300.00", reason: "Bank details could not be verified" },
+    defaults: {
+      subject: "Your cash redemption was not approved",
+      text: `Dear {{customer.firstName}},
+
+Your redemption of {{points}} points for R{{amount}} was not approved.
+Reason: {{reason}}
+
+The {{points}} points have been returned to your balance.`,
+      html: layout(`  <h2>Cash Redemption Not Approved</h2>
+  <p>Dear {{customer.firstName}},</p>
+  <p>Your redemption of <strong>{{points}}</strong> points for <strong>R{{amount}}</strong> was not approved.</p>
+  <p><strong>Reason:</strong> {{reason}}</p>
+  <p>The {{points}} points have been returned to your balance.</p>`),
+    },
+  },
+  CASH_REDEMPTION_PAID: {
+    label: "Cash redemption paid",
+    sample: { customer: SAMPLE_CUSTOMER, points: 20000, amount: "300.00" },
+    defaults: {
+      subject: "Your cash redemption has been paid",
+      text: `Dear {{customer.firstName}},
+
+R{{amount}} for your redemption of {{points}} points has been paid out.
+
+Thank you for your business!`,
+      html: layout(`  <h2>Cash Redemption Paid</h2>
+  <p>Dear {{customer.firstName}},</p>
+  <p><strong>R{{amount}}</strong> for your redemption of <strong>{{points}}</strong> points has been paid out.</p>
+  <br/>
+  <p>Thank you for your business!</p>`),
+    },
+  },
+  VOUCHER_REDEEMED: {
+    label: "Voucher redeemed",
+    sample: { customer: SAMPLE_CUSTOMER, reward: "R50 Airtime", points: 3500, code: "7731-0492-1185" },
+    defaults: {
+      subject: "Your {{reward}} voucher",
+      text: `Dear {{customer.firstName}},
+
+You redeemed {{points}} points for {{reward}}.
+
+Your voucher code is: {{code}}
+
+You can also find this code in your transaction history.
+
+Thank you for your business!`,
+      html: layout(`  <h2>Your Voucher</h2>
+  <p>Dear {{customer.firstName}},</p>
+  <p>You redeemed <strong>{{points}}</strong> points for <strong>{{reward}}</strong>.</p>
+  <div style="margin: 20px 0; padding: 15px; border-left: 4px solid #0070f3;">
+    <p><strong>Voucher code:</strong> <span style="font-family: monospace; font-size: 18px;">{{code}}</span></p>
+  </div>
+  <p>You can also find this code in your transaction history.</p>
+  <br/>
+  <p>Thank you for your business!</p>`),
+    },
+  },
+  REWARD_SHIPPED: {
+    label: "Physical reward shipped",
+    sample: { customer: SAMPLE_CUSTOMER, reward: "Branded Cooler Bag", courier: "The Courier Guy", trackingNumber: "TCG123456789" },
+    defaults: {
+      subject: "Your {{reward}} is on its way",
+      text: `Dear {{customer.firstName}},
+
+Your {{reward}} has been shipped.
+
+Courier: {{courier}}
+Tracking number: {{trackingNumber}}
+
+Thank you for your business!`,
+      html: layout(`  <h2>Your Reward Has Shipped</h2>
+  <p>Dear {{customer.firstName}},</p>
+  <p>Your <strong>{{reward}}</strong> has been shipped.</p>
+  <div style="margin: 20px 0; padding: 15px; border-left: 4px solid #0070f3;">
+    <p><strong>Courier:</strong> {{courier}}</p>
+    <p><strong>Tracking number:</strong> {{trackingNumber}}</p>
+  </div>
+  <p>Thank you for your business!</p>`),
+    },
+  },
+};
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+// Looks up a dotted path such as "customer.firstName". Only plain own
+// properties are followed, so a template can't reach anything else.
+function lookup(variables: unknown, path: string): string | undefined {
+  let value: unknown = variables;
+  for (const part of path.split(".")) {
+    if (value === null || typeof value !== "object" || !Object.prototype.hasOwnProperty.call(value, part)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+  if (typeof value === "number") return value.toLocaleString("en-ZA");
+  if (typeof value === "string") return value;
+  return undefined;
+}
+
+function interpolate(template: string, variables: unknown, escape: boolean) {
+  return template.replace(PLACEHOLDER, (_, path: string) => {
+    const value = lookup(variables, path) ?? "";
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+function renderContent(content: TemplateContent, variables: unknown): TemplateContent {
+  return {
+    subject: interpolate(content.subject, variables, false).replace(/[\r\n]+/g, " "),
+    text: interpolate(content.text, variables, false),
+    html: interpolate(content.html, variables, true),
+  };
+}
+
+// Placeholders the sample data can't fill, i.e. variables the template doesn't have
+function findUnknownVariables(key: EmailTemplateKey, content: TemplateContent) {
+  const { sample } = EMAIL_TEMPLATE_DEFINITIONS[key];
+  const unknown = new Set<string>();
+  [content.subject, content.text, content.html].forEach((part) => {
+    Array.from(part.matchAll(PLACEHOLDER)).forEach(([, path]) => {
+      if (lookup(sample, path) === undefined) unknown.add(path);
+    });
+  });
+  return Array.from(unknown);
+}
+
+// Dotted paths for every value in the sample, for the editor's variable list
+function listVariables(value: unknown, prefix = ""): string[] {
+  if (value === null || typeof value !== "object") return [prefix];
+  return Object.entries(value).flatMap(([name, child]) =>
+    listVariables(child, prefix ? `${prefix}.${name}` : name)
+  );
+}
+
+export const emailTemplateContentSchema = z.object({
+  subject: z.string().min(1, "Subject is required"),
+  text: z.string().min(1, "Plain text body is required"),
+  html: z.string().min(1, "HTML body is required"),
+});
+
+export class EmailTemplateError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "EmailTemplateError";
+  }
+}
+
+export function isEmailTemplateKey(key: string): key is EmailTemplateKey {
+  return (emailTemplateKeys.enumValues as readonly string[]).includes(key);
+}
+
+async function getCurrentTemplate(key: EmailTemplateKey) {
+  const [current] = await db
+    .select()
+    .from(emailTemplates)
+    .where(eq(emailTemplates.key, key))
+    .orderBy(desc(emailTemplates.version))
+    .limit(1);
+
+  return current;
+}
+
+// Renders the current version of a template. HTML values are escaped.
+export async function renderEmailTemplate<K extends EmailTemplateKey>(key: K, variables: EmailTemplateVariables[K]) {
+  const current = await getCurrentTemplate(key);
+  return renderContent(current ?? EMAIL_TEMPLATE_DEFINITIONS[key].defaults, variables);
+}
+
+// Renders unsaved content against the template's sample data
+export function previewEmailTemplate(key: EmailTemplateKey, content: TemplateContent) {
+  return {
+    ...renderContent(content, EMAIL_TEMPLATE_DEFINITIONS[key].sample),
+    unknownVariables: findUnknownVariables(key, content),
+  };
+}
+
+// Version 0 stands for the built-in template
+export async function listEmailTemplates() {
+  return Promise.all(emailTemplateKeys.enumValues.map(async (key) => {
+    const definition = EMAIL_TEMPLATE_DEFINITIONS[key];
+    const current = await getCurrentTemplate(key);
+    return {
+      key,
+      label: definition.label,
+      variables: listVariables(definition.sample),
+      version: current?.version ?? 0,
+      subject: current?.subject ?? definition.defaults.subject,
+      text: current?.text ?? definition.defaults.text,
+      html: current?.html ?? definition.defaults.html,
+      updatedAt: current?.createdAt ?? null,
+    };
+  }));
+}
+
+export async function getEmailTemplateVersions(key: EmailTemplateKey) {
+  return db.query.emailTemplates.findMany({
+    where: eq(emailTemplates.key, key),
+    orderBy: [desc(emailTemplates.version)],
+    with: {
+      author: {
+        columns: { firstName: true, lastName: true },
+      },
+    },
+  });
+}
+
+export async function saveEmailTemplate(key: EmailTemplateKey, content: TemplateContent, adminId: number) {
+  const unknownVariables = findUnknownVariables(key, content);
+  if (unknownVariables.length > 0) {
+    throw new EmailTemplateError(`Unknown variables: ${unknownVariables.join(", ")}`);
+  }
+
+  return db.transaction(async (tx) => {
+    const [{ latest }] = await tx
+      .select({ latest: max(emailTemplates.version) })
+      .from(emailTemplates)
+      .where(eq(emailTemplates.key, key));
+
+    const [saved] = await tx
+      .insert(emailTemplates)
+      .values({ key, version: (latest ?? 0) + 1, ...content, createdBy: adminId })
+      .returning();
+
+    return saved;
+  });
+}
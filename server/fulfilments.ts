@@ -0,0 +1,224 @@
+import { db, type DbExecutor } from "@db";
+import {
+  fulfilmentStatuses,
+  rewardFulfilments,
+  rewards,
+  transactions,
+  users,
+  type DeliveryAddress,
+  type RewardFulfilment,
+  type Transaction,
+} from "@db/schema";
+import { and, desc, eq, isNotNull, sql } from "drizzle-orm";
+import { z } from "zod";
+import { trackPointLots } from "./point-lots";
+import { notify, queueNotificationEmail } from "./notifications";
+import { renderEmailTemplate } from "./email-templates";
+import { logAdminAction } from "./admin-logger";
+
+export type FulfilmentStatus = (typeof fulfilmentStatuses.enumValues)[number];
+
+// Where a fulfilment may go next. DELIVERED and CANCELLED are final; a
+// shipped parcel can still be cancelled if the courier loses it.
+const FULFILMENT_TRANSITIONS: Record<FulfilmentStatus, FulfilmentStatus[]> = {
+  ORDERED: ["SHIPPED", "CANCELLED"],
+  SHIPPED: ["DELIVERED", "CANCELLED"],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+const NEXT_STATUS_ACTIONS = {
+  SHIPPED: "FULFILMENT_SHIPPED",
+  DELIVERED: "FULFILMENT_DELIVERED",
+  CANCELLED: "FULFILMENT_CANCELLED",
+} as const;
+
+export type NextFulfilmentStatus = keyof typeof NEXT_STATUS_ACTIONS;
+
+export const shipmentSchema = z.object({
+  courier: z.string().trim().min(1, "Courier is required"),
+  trackingNumber: z.string().trim().min(1, "Tracking number is required"),
+});
+
+export type Shipment = z.infer<typeof shipmentSchema>;
+
+export class FulfilmentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "FulfilmentError";
+  }
+}
+
+export function isFulfilmentStatus(status: string): status is FulfilmentStatus {
+  return (fulfilmentStatuses.enumValues as readonly string[]).includes(status);
+}
+
+// Call in the same transaction as the REDEEMED debit
+export async function createRewardFulfilment(executor: DbExecutor, debit: Transaction, deliveryAddress: DeliveryAddress) {
+  const [fulfilment] = await executor
+    .insert(rewardFulfilments)
+    .values({
+      userId: debit.userId,
+      rewardId: debit.rewardId!,
+      transactionId: debit.id,
+      deliveryAddress,
+      createdAt: debit.createdAt,
+    })
+    .returning();
+
+  return fulfilment;
+}
+
+// Oldest first, so the queue is worked in the order customers redeemed
+export async function listFulfilments(status?: FulfilmentStatus) {
+  return db.query.rewardFulfilments.findMany({
+    where: status ? eq(rewardFulfilments.status, status) : undefined,
+    orderBy: [rewardFulfilments.createdAt],
+    with: {
+      user: {
+        columns: { firstName: true, lastName: true, email: true, phoneNumber: true },
+      },
+      reward: {
+        columns: { id: true, name: true, pointsCost: true },
+      },
+      updater: {
+        columns: { firstName: true, lastName: true },
+      },
+    },
+  });
+}
+
+// Puts a cancelled item back on the shelf, reopening the reward if it had
+// sold out. Rewards without a stock count are left alone and deleted
+// rewards stay closed.
+async function restock(tx: DbExecutor, rewardId: number) {
+  await tx
+    .update(rewards)
+    .set({
+      stock: sql`${rewards.stock} + 1`,
+      available: sql`${rewards.available} or (${rewards.stock} = 0 and ${rewards.deletedAt} is null)`,
+    })
+    .where(and(eq(rewards.id, rewardId), isNotNull(rewards.stock)));
+}
+
+async function refund(tx: DbExecutor, current: RewardFulfilment, points: number, rewardName: string, adminId: number) {
+  const now = new Date();
+
+  await tx
+    .update(users)
+    .set({ points: sql`${users.points} + ${points}` })
+    .where(eq(users.id, current.userId));
+
+  const [credit] = await tx.insert(transactions).values({
+    userId: current.userId,
+    points,
+    type: "REFUND",
+    description: `Refund of cancelled ${rewardName} order`,
+    rewardId: current.rewardId,
+    status: "PROCESSED",
+    processedAt: now,
+    processedBy: adminId,
+  }).returning();
+
+  await trackPointLots(tx, credit, current.transactionId);
+  return credit;
+}
+
+// Moves a fulfilment to its next state. Shipping needs the courier and
+// tracking number and emails them to the customer; cancelling refunds the
+// points the customer spent and restocks the reward.
+export async function transitionFulfilment(
+  id: number,
+  next: NextFulfilmentStatus,
+  adminId: number,
+  details: { shipment?: Shipment; reason?: string } = {}
+) {
+  if (next === "CANCELLED" && !details.reason?.trim()) {
+    throw new FulfilmentError("A reason is required to cancel an order");
+  }
+
+  const { fulfilment, rewardName } = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(rewardFulfilments)
+      .where(eq(rewardFulfilments.id, id))
+      .for("update");
+
+    if (!current) throw new FulfilmentError("Fulfilment not found", 404);
+    if (!FULFILMENT_TRANSITIONS[current.status].includes(next)) {
+      throw new FulfilmentError(`Cannot move a ${current.status.toLowerCase()} order to ${next.toLowerCase()}`, 409);
+    }
+
+    const [debit] = await tx
+      .select({ points: transactions.points, rewardName: rewards.name })
+      .from(transactions)
+      .innerJoin(rewards, eq(rewards.id, transactions.rewardId))
+      .where(eq(transactions.id, current.transactionId));
+
+    const now = new Date();
+    const changes: Partial<RewardFulfilment> = { status: next, updatedBy: adminId };
+    if (next === "SHIPPED") {
+      changes.courier = details.shipment!.courier;
+      changes.trackingNumber = details.shipment!.trackingNumber;
+      changes.shippedAt = now;
+    } else if (next === "DELIVERED") {
+      changes.deliveredAt = now;
+    } else {
+      changes.cancellationReason = details.reason!.trim();
+      changes.cancelledAt = now;
+
+      const credit = await refund(tx, current, Math.abs(debit.points), debit.rewardName, adminId);
+      changes.refundTransactionId = credit.id;
+      await restock(tx, current.rewardId);
+    }
+
+    const [updated] = await tx
+      .update(rewardFulfilments)
+      .set(changes)
+      .where(eq(rewardFulfilments.id, id))
+      .returning();
+
+    if (next === "SHIPPED") {
+      const [customer] = await tx
+        .select({ email: users.email, firstName: users.firstName, lastName: users.lastName })
+        .from(users)
+        .where(eq(users.id, updated.userId));
+
+      const email = await renderEmailTemplate("REWARD_SHIPPED", {
+        customer: { firstName: customer.firstName || "Valued Customer", lastName: customer.lastName || "" },
+        reward: debit.rewardName,
+        courier: updated.courier!,
+        trackingNumber: updated.trackingNumber!,
+      });
+      await queueNotificationEmail(tx, updated.userId, "REWARD_FULFILMENT_UPDATED", { to: customer.email, ...email });
+    }
+
+    await logAdminAction({
+      adminId,
+      actionType: NEXT_STATUS_ACTIONS[next],
+      targetUserId: updated.userId,
+      details: next === "SHIPPED"
+        ? `Shipped ${debit.rewardName} (order #${updated.id}) with ${updated.courier}, tracking ${updated.trackingNumber}`
+        : next === "DELIVERED"
+          ? `Marked ${debit.rewardName} (order #${updated.id}) as delivered`
+          : `Cancelled ${debit.rewardName} (order #${updated.id}) and refunded ${Math.abs(debit.points)} points. Reason: ${updated.cancellationReason}`,
+    });
+
+    return { fulfilment: updated, rewardName: debit.rewardName };
+  });
+
+  if (next === "DELIVERED") {
+    await notify(fulfilment.userId, "REWARD_FULFILLED", { rewardId: fulfilment.rewardId, rewardName });
+  } else {
+    await notify(fulfilment.userId, "REWARD_FULFILMENT_UPDATED", {
+      fulfilmentId: fulfilment.id,
+      rewardName,
+      status: next,
+      ...(next === "SHIPPED"
+        ? { courier: fulfilment.courier!, trackingNumber: fulfilment.trackingNumber! }
+        : { reason: fulfilment.cancellationReason! }),
+    });
+  }
+
+  return fulfilment;
+}
@@ -4,6 +4,8 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import cors from "cors";
 import fileUpload from 'express-fileupload';
+import { getLocalUploadDir, LOCAL_UPLOADS_PATH } from "./utils/fileStorage";
+import { REWARD_IMAGE_MAX_BYTES } from "./reward-images";
 
 const app = express();
 
@@ -20,10 +22,16 @@ app.use(express.urlencoded({ extended: false }));
 app.use(fileUpload({
   createParentPath: true,
   limits: { 
-    fileSize: 5 * 1024 * 1024 // 5MB max file size
+    // 5MB max file size, or more if reward images are allowed to be larger
+    fileSize: Math.max(5 * 1024 * 1024, REWARD_IMAGE_MAX_BYTES)
   },
 }));
 
+// Uploaded files kept on local disk. Names are unique per upload, so they can be cached for good.
+if ((process.env.FILE_STORAGE || "local") === "local") {
+  app.use(LOCAL_UPLOADS_PATH, express.static(getLocalUploadDir(), { maxAge: "1y", immutable: true, index: false }));
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
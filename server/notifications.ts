@@ -0,0 +1,294 @@
+import { db, type DbExecutor } from "@db";
+import { notifications, notificationTypes, notificationChannels, notificationPreferences, users } from "@db/schema";
+import { and, asc, count, desc, eq, inArray, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { sendToUser } from "./websocket";
+import { queueEmail } from "./email-outbox";
+import type { EmailParams } from "./utils/emailService";
+
+const INBOX_LIMIT = 50;
+
+export type NotificationType = (typeof notificationTypes.enumValues)[number];
+
+// Payload carried by each notification type. The client renders from the
+// stored title and message and uses the payload for icons and links.
+export type NotificationPayloads = {
+  POINTS_ADJUSTED: { points: number; reason: string };
+  TIER_CHANGE: { fromTier: string; toTier: string; direction: "UPGRADE" | "DOWNGRADE" };
+  CASH_REDEMPTION_REQUESTED: { customerId: number; customerName: string; points: number; amount: string };
+  CASH_REDEMPTION_PROCESSED: { redemptionId: number; points: number; amount: string };
+  REWARD_FULFILLED: { rewardId: number; rewardName: string };
+  REFERRAL_JOINED: { referredName: string; bonusPoints: number };
+  POINTS_EXPIRING: { points: number; expiresAt: string };
+  ADMIN_POINTS_ASSIGNED: { customerName: string; points: number; reason: string };
+  CASH_REDEMPTION_APPROVED: { redemptionId: number; points: number; amount: string };
+  CASH_REDEMPTION_REJECTED: { redemptionId: number; points: number; amount: string; reason: string };
+  PAYOUT_ACCOUNT_SUBMITTED: { customerId: number; customerName: string };
+  PAYOUT_ACCOUNT_REVIEWED: { status: "VERIFIED" | "REJECTED"; reason?: string };
+  REWARD_LOW_STOCK: { rewardId: number; rewardName: string; stock: number };
+  REWARD_FULFILMENT_UPDATED: {
+    fulfilmentId: number;
+    rewardName: string;
+    status: "SHIPPED" | "CANCELLED";
+    courier?: string;
+    trackingNumber?: string;
+    reason?: string;
+  };
+};
+
+const NOTIFICATION_CATALOGUE: {
+  [T in NotificationType]: (payload: NotificationPayloads[T]) => { title: string; message: string };
+} = {
+  POINTS_ADJUSTED: ({ points, reason }) => ({
+    title: points >= 0 ? "Points Added" : "Points Deducted",
+    message: `${points > 0 ? "+" : ""}${points.toLocaleString()} points - ${reason}`,
+  }),
+  TIER_CHANGE: ({ fromTier, toTier, direction }) => ({
+    title: "Tier Update",
+    message: direction === "UPGRADE"
+      ? `You moved up to the ${toTier} tier`
+      : `You moved from the ${fromTier} tier to the ${toTier} tier`,
+  }),
+  CASH_REDEMPTION_REQUESTED: ({ customerName, points, amount }) => ({
+    title: "Cash Redemption Request",
+    message: `${customerName} redeemed ${points.toLocaleString()} points for R${amount}`,
+  }),
+  CASH_REDEMPTION_PROCESSED: ({ points, amount }) => ({
+    title: "Cash Redemption Paid",
+    message: `Your redemption of ${points.toLocaleString()} points for R${amount} has been processed`,
+  }),
+  REWARD_FULFILLED: ({ rewardName }) => ({
+    title: "Reward Fulfilled",
+    message: `Your ${rewardName} reward has been fulfilled`,
+  }),
+  REFERRAL_JOINED: ({ referredName, bonusPoints }) => ({
+    title: "Referral Joined",
+    message: `${referredName} joined with your referral code. You earned ${bonusPoints.toLocaleString()} points`,
+  }),
+  POINTS_EXPIRING: ({ points, expiresAt }) => ({
+    title: "Points Expiring Soon",
+    message: `${points.toLocaleString()} points expire on ${new Date(expiresAt).toLocaleDateString("en-ZA")}`,
+  }),
+  ADMIN_POINTS_ASSIGNED: ({ customerName, points, reason }) => ({
+    title: "Points Assigned",
+    message: `You assigned ${points.toLocaleString()} points to ${customerName} - ${reason}`,
+  }),
+  CASH_REDEMPTION_APPROVED: ({ points, amount }) => ({
+    title: "Cash Redemption Approved",
+    message: `Your redemption of ${points.toLocaleString()} points for R${amount} has been approved`,
+  }),
+  CASH_REDEMPTION_REJECTED: ({ points, amount, reason }) => ({
+    title: "Cash Redemption Rejected",
+    message: `Your redemption of ${points.toLocaleString()} points for R${amount} was rejected: ${reason}. The points have been refunded`,
+  }),
+  PAYOUT_ACCOUNT_SUBMITTED: ({ customerName }) => ({
+    title: "Bank Details to Verify",
+    message: `${customerName} submitted payout bank details for verification`,
+  }),
+  PAYOUT_ACCOUNT_REVIEWED: ({ status, reason }) => ({
+    title: status === "VERIFIED" ? "Bank Details Verified" : "Bank Details Rejected",
+    message: status === "VERIFIED"
+      ? "Your payout bank details have been verified. You can now redeem points for cash"
+      : `Your payout bank details could not be verified: ${reason}`,
+  }),
+  REWARD_LOW_STOCK: ({ rewardName, stock }) => ({
+    title: stock === 0 ? "Reward Sold Out" : "Reward Stock Low",
+    message: stock === 0
+      ? `${rewardName} has sold out and is no longer available`
+      : `Only ${stock.toLocaleString()} of ${rewardName} left`,
+  }),
+  REWARD_FULFILMENT_UPDATED: ({ rewardName, status, courier, trackingNumber, reason }) => ({
+    title: status === "SHIPPED" ? "Reward Shipped" : "Reward Order Cancelled",
+    message: status === "SHIPPED"
+      ? `Your ${rewardName} is on its way with ${courier}. Tracking number: ${trackingNumber}`
+      : `Your ${rewardName} order was cancelled: ${reason}. The points have been refunded`,
+  }),
+};
+
+export type NotificationChannel = (typeof notificationChannels.enumValues)[number];
+
+// Used when the user has not stored a choice. SMS stays off until there is
+// a transport for it.
+const CHANNEL_DEFAULTS: Record<NotificationChannel, boolean> = {
+  EMAIL: true,
+  IN_APP: true,
+  SMS: false,
+};
+
+const ADMIN_NOTIFICATION_TYPES: NotificationType[] = ["CASH_REDEMPTION_REQUESTED", "ADMIN_POINTS_ASSIGNED", "PAYOUT_ACCOUNT_SUBMITTED", "REWARD_LOW_STOCK"];
+
+export const notificationPreferenceSchema = z.array(z.object({
+  eventType: z.enum(notificationTypes.enumValues),
+  channel: z.enum(notificationChannels.enumValues),
+  enabled: z.boolean(),
+}));
+
+async function getEnabledChannels(executor: DbExecutor, userId: number, type: NotificationType) {
+  const stored = await executor
+    .select()
+    .from(notificationPreferences)
+    .where(and(eq(notificationPreferences.userId, userId), eq(notificationPreferences.eventType, type)));
+
+  const enabled = { ...CHANNEL_DEFAULTS };
+  stored.forEach((preference) => {
+    enabled[preference.channel] = preference.enabled;
+  });
+  return enabled;
+}
+
+// Every event the user can receive, on every channel, with defaults filled in
+export async function getNotificationPreferences(userId: number) {
+  const [user] = await db
+    .select({ isAdmin: users.isAdmin })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const stored = await db
+    .select()
+    .from(notificationPreferences)
+    .where(eq(notificationPreferences.userId, userId));
+
+  const eventTypes = notificationTypes.enumValues.filter(
+    (type) => user?.isAdmin || !ADMIN_NOTIFICATION_TYPES.includes(type)
+  );
+
+  return eventTypes.flatMap((eventType) =>
+    notificationChannels.enumValues.map((channel) => ({
+      eventType,
+      channel,
+      enabled: stored.find((p) => p.eventType === eventType && p.channel === channel)?.enabled
+        ?? CHANNEL_DEFAULTS[channel],
+    }))
+  );
+}
+
+export async function updateNotificationPreferences(
+  userId: number,
+  preferences: z.infer<typeof notificationPreferenceSchema>
+) {
+  await db.transaction(async (tx) => {
+    for (const preference of preferences) {
+      await tx
+        .insert(notificationPreferences)
+        .values({ userId, ...preference })
+        .onConflictDoUpdate({
+          target: [notificationPreferences.userId, notificationPreferences.eventType, notificationPreferences.channel],
+          set: { enabled: preference.enabled, updatedAt: new Date() },
+        });
+    }
+  });
+}
+
+// Queues the email for an event if the user accepts email for it. Pass the
+// transaction making the change so the email is only sent if it commits.
+export async function queueNotificationEmail(
+  executor: DbExecutor,
+  userId: number,
+  type: NotificationType,
+  email: EmailParams
+) {
+  const channels = await getEnabledChannels(executor, userId, type);
+  if (!channels.EMAIL) return null;
+
+  return queueEmail(executor, email, userId);
+}
+
+// Delivers an event on the channels the user allows. The optional email is
+// queued if they accept email for this event; events raised inside a
+// transaction should queue it there with queueNotificationEmail instead.
+// In-app notifications are stored and pushed over the WebSocket when the
+// user is connected; undelivered ones are picked up by the fallback poll.
+// Call after the transaction that caused the event has committed.
+export async function notify<T extends NotificationType>(
+  userId: number,
+  type: T,
+  payload: NotificationPayloads[T],
+  email?: EmailParams
+) {
+  if (email) {
+    await queueNotificationEmail(db, userId, type, email);
+  }
+
+  const channels = await getEnabledChannels(db, userId, type);
+  if (!channels.IN_APP) return null;
+
+  const { title, message } = NOTIFICATION_CATALOGUE[type](payload);
+
+  const [notification] = await db
+    .insert(notifications)
+    .values({ userId, type, title, message, payload })
+    .returning();
+
+  if (sendToUser(userId, notification)) {
+    await db
+      .update(notifications)
+      .set({ deliveredAt: new Date() })
+      .where(eq(notifications.id, notification.id));
+  }
+
+  return notification;
+}
+
+// Sends the same notification to every admin
+export async function notifyAdmins<T extends NotificationType>(type: T, payload: NotificationPayloads[T]) {
+  const admins = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.isAdmin, true));
+
+  for (const admin of admins) {
+    await notify(admin.id, type, payload);
+  }
+}
+
+// Returns the notifications not yet shown to the user and marks them delivered
+export async function takeNotifications(userId: number) {
+  const pending = await db
+    .select()
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), isNull(notifications.deliveredAt)))
+    .orderBy(asc(notifications.createdAt));
+
+  if (pending.length > 0) {
+    await db
+      .update(notifications)
+      .set({ deliveredAt: new Date() })
+      .where(inArray(notifications.id, pending.map((n) => n.id)));
+  }
+
+  return pending;
+}
+
+export async function listNotifications(userId: number) {
+  const items = await db
+    .select()
+    .from(notifications)
+    .where(eq(notifications.userId, userId))
+    .orderBy(desc(notifications.createdAt))
+    .limit(INBOX_LIMIT);
+
+  const [{ unread }] = await db
+    .select({ unread: count() })
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+
+  return { notifications: items, unreadCount: unread };
+}
+
+export async function markNotificationRead(userId: number, id: number) {
+  const [notification] = await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+    .returning();
+
+  return notification;
+}
+
+export async function markAllNotificationsRead(userId: number) {
+  await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+}
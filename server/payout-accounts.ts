@@ -0,0 +1,190 @@
+import { db, type DbExecutor } from "@db";
+import { payoutAccounts, payoutAccountStatuses, bankAccountTypes, users, type PayoutAccount } from "@db/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { encrypt, decrypt } from "./utils/encryption";
+import { notify, notifyAdmins } from "./notifications";
+import { logAdminAction } from "./admin-logger";
+
+export type PayoutAccountStatus = (typeof payoutAccountStatuses.enumValues)[number];
+
+export const PAYOUT_ACCOUNT_REQUIRED = "Add your payout bank details on your profile and wait for them to be verified before redeeming cash";
+
+export const payoutAccountSchema = z.object({
+  bankName: z.string().trim().min(1, "Bank is required"),
+  branchCode: z.string().trim().regex(/^\d{6}$/, "Branch code must be 6 digits"),
+  accountType: z.enum(bankAccountTypes.enumValues),
+  accountNumber: z.string()
+    .transform((value) => value.replace(/[\s-]/g, ""))
+    .pipe(z.string().regex(/^\d{6,16}$/, "Account number must be 6 to 16 digits")),
+  holderName: z.string().trim().min(1, "Account holder name is required"),
+});
+
+export class PayoutAccountError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PayoutAccountError";
+  }
+}
+
+export function isPayoutAccountStatus(status: string): status is PayoutAccountStatus {
+  return (payoutAccountStatuses.enumValues as readonly string[]).includes(status);
+}
+
+// What customers and admins see: never the full account number
+export function toPayoutAccountView(account: PayoutAccount) {
+  return {
+    id: account.id,
+    bankName: account.bankName,
+    branchCode: account.branchCode,
+    accountType: account.accountType,
+    accountNumberMasked: `•••• ${account.accountNumberLast4}`,
+    holderName: decrypt(account.holderNameEncrypted),
+    status: account.status,
+    rejectionReason: account.rejectionReason,
+    verifiedAt: account.verifiedAt,
+    createdAt: account.createdAt,
+  };
+}
+
+async function getActivePayoutAccount(executor: DbExecutor, userId: number) {
+  const [account] = await executor
+    .select()
+    .from(payoutAccounts)
+    .where(and(eq(payoutAccounts.userId, userId), isNull(payoutAccounts.archivedAt)))
+    .limit(1);
+
+  return account;
+}
+
+export async function getPayoutAccountView(userId: number) {
+  const account = await getActivePayoutAccount(db, userId);
+  return account ? toPayoutAccountView(account) : null;
+}
+
+// The account a cash redemption is paid into, if the customer has one verified
+export async function getVerifiedPayoutAccount(userId: number) {
+  const account = await getActivePayoutAccount(db, userId);
+  return account?.status === "VERIFIED" ? account : undefined;
+}
+
+// New details always start unverified, even if only one field changed
+export async function savePayoutAccount(userId: number, details: z.infer<typeof payoutAccountSchema>) {
+  const account = await db.transaction(async (tx) => {
+    await tx
+      .update(payoutAccounts)
+      .set({ archivedAt: new Date() })
+      .where(and(eq(payoutAccounts.userId, userId), isNull(payoutAccounts.archivedAt)));
+
+    const [created] = await tx
+      .insert(payoutAccounts)
+      .values({
+        userId,
+        bankName: details.bankName,
+        branchCode: details.branchCode,
+        accountType: details.accountType,
+        accountNumberEncrypted: encrypt(details.accountNumber),
+        accountNumberLast4: details.accountNumber.slice(-4),
+        holderNameEncrypted: encrypt(details.holderName),
+      })
+      .returning();
+
+    return created;
+  });
+
+  const customer = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { firstName: true, lastName: true },
+  });
+  await notifyAdmins("PAYOUT_ACCOUNT_SUBMITTED", {
+    customerId: userId,
+    customerName: `${customer?.firstName} ${customer?.lastName}`,
+  });
+
+  return toPayoutAccountView(account);
+}
+
+export async function listPayoutAccounts(status?: PayoutAccountStatus) {
+  const accounts = await db.query.payoutAccounts.findMany({
+    where: and(
+      isNull(payoutAccounts.archivedAt),
+      status ? eq(payoutAccounts.status, status) : undefined
+    ),
+    orderBy: [desc(payoutAccounts.createdAt)],
+    with: {
+      user: {
+        columns: { id: true, firstName: true, lastName: true, email: true },
+      },
+    },
+  });
+
+  return accounts.map(({ user, ...account }) => ({ ...toPayoutAccountView(account), user }));
+}
+
+// Full details for an admin checking them against proof of account. Logged.
+export async function revealPayoutAccount(id: number, adminId: number) {
+  const [account] = await db
+    .select()
+    .from(payoutAccounts)
+    .where(eq(payoutAccounts.id, id));
+
+  if (!account) throw new PayoutAccountError("Payout account not found", 404);
+
+  await logAdminAction({
+    adminId,
+    actionType: "PAYOUT_ACCOUNT_REVEALED",
+    targetUserId: account.userId,
+    details: `Viewed full bank details for account ending ${account.accountNumberLast4}`,
+  });
+
+  return {
+    accountNumber: decrypt(account.accountNumberEncrypted),
+    holderName: decrypt(account.holderNameEncrypted),
+  };
+}
+
+export async function reviewPayoutAccount(
+  id: number,
+  decision: "VERIFIED" | "REJECTED",
+  adminId: number,
+  reason?: string
+) {
+  if (decision === "REJECTED" && !reason?.trim()) {
+    throw new PayoutAccountError("A reason is required to reject bank details");
+  }
+
+  const [account] = await db
+    .update(payoutAccounts)
+    .set({
+      status: decision,
+      rejectionReason: decision === "REJECTED" ? reason!.trim() : null,
+      verifiedBy: adminId,
+      verifiedAt: new Date(),
+    })
+    .where(and(
+      eq(payoutAccounts.id, id),
+      eq(payoutAccounts.status, "PENDING_VERIFICATION"),
+      isNull(payoutAccounts.archivedAt)
+    ))
+    .returning();
+
+  if (!account) {
+    throw new PayoutAccountError("Payout account not found or already reviewed", 404);
+  }
+
+  await logAdminAction({
+    adminId,
+    actionType: decision === "VERIFIED" ? "PAYOUT_ACCOUNT_VERIFIED" : "PAYOUT_ACCOUNT_REJECTED",
+    targetUserId: account.userId,
+    details: decision === "VERIFIED"
+      ? `Verified bank details for account ending ${account.accountNumberLast4}`
+      : `Rejected bank details for account ending ${account.accountNumberLast4}. Reason: ${account.rejectionReason}`,
+  });
+
+  await notify(account.userId, "PAYOUT_ACCOUNT_REVIEWED", {
+    status: decision,
+    reason: account.rejectionReason ?? undefined,
+  });
+
+  return toPayoutAccountView(account);
+}
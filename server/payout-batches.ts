@@ -0,0 +1,210 @@
+import { db } from "@db";
+import { cashRedemptions, payoutBatches, type CashRedemption } from "@db/schema";
+import { and, asc, desc, eq, isNotNull } from "drizzle-orm";
+import { stringify } from "csv-stringify";
+import { decrypt } from "./utils/encryption";
+import { applyCashRedemptionChange, notifyCashRedemptionChange } from "./cash-redemptions";
+import { logAdminAction } from "./admin-logger";
+
+export type PayoutFileFormat = "csv" | "fixed";
+
+export class PayoutBatchError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PayoutBatchError";
+  }
+}
+
+export function isPayoutFileFormat(format: string): format is PayoutFileFormat {
+  return format === "csv" || format === "fixed";
+}
+
+// Collects every approved redemption that has a payout account into a new
+// batch. Redemptions from before payout accounts existed stay APPROVED and
+// have to be paid individually.
+export async function createPayoutBatch(adminId: number) {
+  return await db.transaction(async (tx) => {
+    const approved = await tx
+      .select()
+      .from(cashRedemptions)
+      .where(and(eq(cashRedemptions.status, "APPROVED"), isNotNull(cashRedemptions.payoutAccountId)))
+      .orderBy(asc(cashRedemptions.createdAt))
+      .for("update");
+
+    if (approved.length === 0) {
+      throw new PayoutBatchError("There are no approved cash redemptions with bank details to batch");
+    }
+
+    const totalCents = approved.reduce((sum, redemption) => sum + Math.round(Number(redemption.amount) * 100), 0);
+
+    const [batch] = await tx
+      .insert(payoutBatches)
+      .values({
+        redemptionCount: approved.length,
+        totalAmount: (totalCents / 100).toFixed(2),
+        createdBy: adminId,
+      })
+      .returning();
+
+    for (const redemption of approved) {
+      await tx
+        .update(cashRedemptions)
+        .set({ status: "IN_BATCH", payoutBatchId: batch.id })
+        .where(eq(cashRedemptions.id, redemption.id));
+    }
+
+    await logAdminAction({
+      adminId,
+      actionType: "PAYOUT_BATCH_CREATED",
+      details: `Created payout batch #${batch.id} with ${batch.redemptionCount} cash redemptions totalling R${batch.totalAmount}`,
+    });
+
+    return batch;
+  });
+}
+
+export async function listPayoutBatches() {
+  return await db.query.payoutBatches.findMany({
+    orderBy: [desc(payoutBatches.createdAt)],
+    with: {
+      creator: {
+        columns: { firstName: true, lastName: true },
+      },
+      payer: {
+        columns: { firstName: true, lastName: true },
+      },
+    },
+  });
+}
+
+async function getBatchPaymentLines(batchId: number) {
+  const batch = await db.query.payoutBatches.findFirst({
+    where: eq(payoutBatches.id, batchId),
+    with: {
+      redemptions: {
+        orderBy: [asc(cashRedemptions.createdAt)],
+        with: { payoutAccount: true },
+      },
+    },
+  });
+
+  if (!batch) throw new PayoutBatchError("Payout batch not found", 404);
+
+  const lines = batch.redemptions.map((redemption) => {
+    const account = redemption.payoutAccount!;
+    return {
+      beneficiary: decrypt(account.holderNameEncrypted),
+      accountNumber: decrypt(account.accountNumberEncrypted),
+      branchCode: account.branchCode,
+      amount: Number(redemption.amount).toFixed(2),
+      reference: `OPIAN CR${redemption.id}`,
+    };
+  });
+
+  return { batch, lines };
+}
+
+type PaymentLine = Awaited<ReturnType<typeof getBatchPaymentLines>>["lines"][number];
+
+function formatCsv(lines: PaymentLine[]) {
+  return new Promise<string>((resolve, reject) => {
+    stringify(lines, {
+      header: true,
+      columns: [
+        { key: "beneficiary", header: "Beneficiary" },
+        { key: "accountNumber", header: "Account Number" },
+        { key: "branchCode", header: "Branch Code" },
+        { key: "amount", header: "Amount" },
+        { key: "reference", header: "Reference" },
+      ],
+    }, (err, output) => {
+      if (err) reject(err);
+      else resolve(output);
+    });
+  });
+}
+
+// Fixed-width layout, one payment per line:
+//   beneficiary 1-30, account number 31-46, branch code 47-52,
+//   amount in Rand 53-64 (right aligned, two decimals), reference 65-84
+function formatFixedWidth(lines: PaymentLine[]) {
+  const field = (value: string, width: number) => value.slice(0, width).padEnd(width);
+
+  return lines
+    .map((line) =>
+      field(line.beneficiary.toUpperCase(), 30) +
+      field(line.accountNumber, 16) +
+      field(line.branchCode, 6) +
+      line.amount.padStart(12, "0") +
+      field(line.reference, 20)
+    )
+    .join("\r\n") + "\r\n";
+}
+
+// Builds the bank upload file. It holds full account numbers, so every
+// download is logged.
+export async function exportPayoutBatch(batchId: number, format: PayoutFileFormat, adminId: number) {
+  const { batch, lines } = await getBatchPaymentLines(batchId);
+
+  const content = format === "csv" ? await formatCsv(lines) : formatFixedWidth(lines);
+
+  await logAdminAction({
+    adminId,
+    actionType: "PAYOUT_BATCH_EXPORTED",
+    details: `Downloaded payout batch #${batch.id} as ${format === "csv" ? "CSV" : "fixed width"} (${lines.length} payments)`,
+  });
+
+  return {
+    filename: `payout-batch-${batch.id}.${format === "csv" ? "csv" : "txt"}`,
+    contentType: format === "csv" ? "text/csv" : "text/plain",
+    content,
+  };
+}
+
+// Settles the whole batch: every redemption in it is marked PAID in one
+// transaction and each customer gets the usual paid email and notification.
+export async function markPayoutBatchPaid(batchId: number, adminId: number) {
+  const { batch, paid } = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(payoutBatches)
+      .where(eq(payoutBatches.id, batchId))
+      .for("update");
+
+    if (!current) throw new PayoutBatchError("Payout batch not found", 404);
+    if (current.status === "PAID") {
+      throw new PayoutBatchError("This payout batch has already been marked as paid", 409);
+    }
+
+    const redemptions = await tx
+      .select()
+      .from(cashRedemptions)
+      .where(eq(cashRedemptions.payoutBatchId, batchId))
+      .for("update");
+
+    const paid: CashRedemption[] = [];
+    for (const redemption of redemptions) {
+      paid.push(await applyCashRedemptionChange(tx, redemption, "PAID", adminId));
+    }
+
+    const [batch] = await tx
+      .update(payoutBatches)
+      .set({ status: "PAID", paidBy: adminId, paidAt: new Date() })
+      .where(eq(payoutBatches.id, batchId))
+      .returning();
+
+    await logAdminAction({
+      adminId,
+      actionType: "PAYOUT_BATCH_PAID",
+      details: `Marked payout batch #${batch.id} as paid (${paid.length} cash redemptions totalling R${batch.totalAmount})`,
+    });
+
+    return { batch, paid };
+  });
+
+  for (const redemption of paid) {
+    await notifyCashRedemptionChange(redemption, "PAID");
+  }
+
+  return batch;
+}
@@ -0,0 +1,293 @@
+import { db, type DbExecutor } from "@db";
+import { pointLotConsumptions, pointLots, transactions, users, type Transaction } from "@db/schema";
+import { and, asc, eq, gt, inArray, isNotNull, isNull, lte, sql } from "drizzle-orm";
+import { renderEmailTemplate } from "./email-templates";
+import { notify, queueNotificationEmail } from "./notifications";
+
+// Months a lot stays spendable after it is earned; 0 turns expiry off
+const POINT_EXPIRY_MONTHS = Number(process.env.POINT_EXPIRY_MONTHS ?? 12);
+const EXPIRY_WARNING_DAYS = 30;
+const EXPIRY_JOB_INTERVAL = 24 * 60 * 60 * 1000;
+
+function expiryDateFor(earnedAt: Date) {
+  if (!POINT_EXPIRY_MONTHS) return null;
+  const expiresAt = new Date(earnedAt);
+  expiresAt.setMonth(expiresAt.getMonth() + POINT_EXPIRY_MONTHS);
+  return expiresAt;
+}
+
+const openLot = and(gt(pointLots.remaining, 0), isNull(pointLots.expiredAt));
+
+async function openPointLot(executor: DbExecutor, userId: number, points: number, earnedAt: Date, transactionId?: number) {
+  await executor.insert(pointLots).values({
+    userId,
+    transactionId,
+    points,
+    remaining: points,
+    earnedAt,
+    expiresAt: expiryDateFor(earnedAt),
+  });
+}
+
+// Drains the oldest lots first, recording what the debit transaction took
+// from each. Returns any points that had no lot to come out of, which only
+// happens when lots and balance have drifted apart.
+export async function consumePointLots(executor: DbExecutor, userId: number, points: number, transactionId?: number) {
+  const lots = await executor
+    .select()
+    .from(pointLots)
+    .where(and(eq(pointLots.userId, userId), openLot))
+    .orderBy(asc(pointLots.earnedAt), asc(pointLots.id))
+    .for("update");
+
+  let outstanding = points;
+  for (const lot of lots) {
+    if (outstanding <= 0) break;
+    const used = Math.min(lot.remaining, outstanding);
+    await executor
+      .update(pointLots)
+      .set({ remaining: lot.remaining - used })
+      .where(eq(pointLots.id, lot.id));
+    if (transactionId) {
+      await executor.insert(pointLotConsumptions).values({ lotId: lot.id, transactionId, points: used });
+    }
+    outstanding -= used;
+  }
+  return outstanding;
+}
+
+// Gives refunded points back with the earn and expiry dates of the lots the
+// debit took them from, so a refund never extends how long points last.
+// Lots that lapsed in the meantime are written off by the next expiry run.
+// Debits from before consumption was recorded fall back to a new lot.
+async function restorePointLots(
+  executor: DbExecutor,
+  refund: Pick<Transaction, "id" | "userId" | "points" | "createdAt">,
+  debitTransactionId: number
+) {
+  const consumed = await executor
+    .select({ points: pointLotConsumptions.points, earnedAt: pointLots.earnedAt, expiresAt: pointLots.expiresAt })
+    .from(pointLotConsumptions)
+    .innerJoin(pointLots, eq(pointLots.id, pointLotConsumptions.lotId))
+    .where(eq(pointLotConsumptions.transactionId, debitTransactionId))
+    .orderBy(asc(pointLots.earnedAt), asc(pointLots.id));
+
+  let outstanding = refund.points;
+  for (const lot of consumed) {
+    if (outstanding <= 0) break;
+    const restored = Math.min(lot.points, outstanding);
+    await executor.insert(pointLots).values({
+      userId: refund.userId,
+      transactionId: refund.id,
+      points: restored,
+      remaining: restored,
+      earnedAt: lot.earnedAt,
+      expiresAt: lot.expiresAt,
+    });
+    outstanding -= restored;
+  }
+
+  if (outstanding > 0) {
+    await openPointLot(executor, refund.userId, outstanding, refund.createdAt, refund.id);
+  }
+}
+
+// Call in the same transaction as any insert that moves a customer's
+// balance, after the balance update so the customer row is locked first:
+// credits open a lot, debits consume lots oldest first. Pass the debit a
+// refund reverses as refundOf so the points keep their original expiry.
+export async function trackPointLots(
+  executor: DbExecutor,
+  transaction: Pick<Transaction, "id" | "userId" | "points" | "createdAt">,
+  refundOf?: number
+) {
+  if (transaction.points > 0 && refundOf) {
+    await restorePointLots(executor, transaction, refundOf);
+  } else if (transaction.points > 0) {
+    await openPointLot(executor, transaction.userId, transaction.points, transaction.createdAt, transaction.id);
+  } else if (transaction.points < 0) {
+    await consumePointLots(executor, transaction.userId, -transaction.points, transaction.id);
+  }
+}
+
+// Brings lots back in line with balances that were changed without them,
+// such as customer imports and balances from before lots were tracked.
+// Missing points open a lot dated today.
+export async function reconcilePointLots() {
+  const drifted = await db
+    .select({ id: users.id })
+    .from(users)
+    .leftJoin(pointLots, and(eq(pointLots.userId, users.id), isNull(pointLots.expiredAt)))
+    .groupBy(users.id)
+    .having(sql`${users.points} <> coalesce(sum(${pointLots.remaining}), 0)`);
+
+  for (const { id } of drifted) {
+    await db.transaction(async (tx) => {
+      const [user] = await tx
+        .select({ points: users.points })
+        .from(users)
+        .where(eq(users.id, id))
+        .for("update");
+      if (!user) return;
+
+      const [row] = await tx
+        .select({ total: sql<string>`coalesce(sum(${pointLots.remaining}), 0)` })
+        .from(pointLots)
+        .where(and(eq(pointLots.userId, id), openLot));
+
+      const difference = user.points - Number(row?.total || 0);
+      if (difference > 0) {
+        await openPointLot(tx, id, difference, new Date());
+      } else if (difference < 0) {
+        await consumePointLots(tx, id, -difference);
+      }
+    });
+  }
+}
+
+// Writes off every lapsed lot as one EXPIRED transaction per customer
+export async function expirePointLots() {
+  const now = new Date();
+  const lapsed = and(openLot, isNotNull(pointLots.expiresAt), lte(pointLots.expiresAt, now));
+
+  const affected = await db
+    .selectDistinct({ userId: pointLots.userId })
+    .from(pointLots)
+    .where(lapsed);
+
+  for (const { userId } of affected) {
+    await db.transaction(async (tx) => {
+      // Lock the customer before their lots, the same order balance updates use
+      const [user] = await tx
+        .select({ points: users.points })
+        .from(users)
+        .where(eq(users.id, userId))
+        .for("update");
+      if (!user) return;
+
+      const lots = await tx
+        .select()
+        .from(pointLots)
+        .where(and(eq(pointLots.userId, userId), lapsed))
+        .for("update");
+
+      const total = lots.reduce((sum, lot) => sum + lot.remaining, 0);
+      if (total <= 0) return;
+
+      // If lots and balance have drifted, only what is left of the balance
+      // can expire, so the ledger matches what comes off it
+      const expired = Math.min(total, Math.max(0, user.points));
+
+      await tx
+        .update(pointLots)
+        .set({ remaining: 0, expiredAt: now })
+        .where(inArray(pointLots.id, lots.map((lot) => lot.id)));
+
+      if (expired <= 0) return;
+
+      await tx.insert(transactions).values({
+        userId,
+        points: -expired,
+        type: "EXPIRED",
+        description: `${expired} points expired`,
+      });
+
+      await tx
+        .update(users)
+        .set({ points: sql`${users.points} - ${expired}` })
+        .where(eq(users.id, userId));
+    });
+  }
+}
+
+// Warns each customer once per lot, by email and in-app, about points
+// lapsing in the next 30 days
+export async function sendExpiryWarnings() {
+  const horizon = new Date(Date.now() + EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+
+  const due = await db
+    .select({
+      lotId: pointLots.id,
+      remaining: pointLots.remaining,
+      expiresAt: pointLots.expiresAt,
+      userId: users.id,
+      email: users.email,
+      firstName: users.firstName,
+      lastName: users.lastName,
+    })
+    .from(pointLots)
+    .innerJoin(users, eq(users.id, pointLots.userId))
+    .where(and(
+      openLot,
+      isNull(pointLots.warnedAt),
+      isNotNull(pointLots.expiresAt),
+      lte(pointLots.expiresAt, horizon)
+    ))
+    .orderBy(asc(pointLots.expiresAt));
+
+  const byUser = new Map<number, typeof due>();
+  due.forEach((lot) => {
+    byUser.set(lot.userId, [...(byUser.get(lot.userId) || []), lot]);
+  });
+
+  const customers = Array.from(byUser.values());
+  for (const lots of customers) {
+    const [first] = lots;
+    const points = lots.reduce((sum, lot) => sum + lot.remaining, 0);
+    const email = await renderEmailTemplate("POINTS_EXPIRING", {
+      customer: { firstName: first.firstName || "Valued Customer", lastName: first.lastName || "" },
+      points,
+      expiryDate: first.expiresAt!.toLocaleDateString("en-ZA", { day: "numeric", month: "long", year: "numeric" }),
+    });
+
+    await db.transaction(async (tx) => {
+      await queueNotificationEmail(tx, first.userId, "POINTS_EXPIRING", { to: first.email, ...email });
+
+      await tx
+        .update(pointLots)
+        .set({ warnedAt: new Date() })
+        .where(inArray(pointLots.id, lots.map((lot) => lot.lotId)));
+    });
+
+    await notify(first.userId, "POINTS_EXPIRING", {
+      points,
+      expiresAt: first.expiresAt!.toISOString(),
+    });
+  }
+}
+
+// The soonest expiry date and how many points lapse that day
+export async function getNextPointsExpiry(userId: number) {
+  const lots = await db
+    .select({ remaining: pointLots.remaining, expiresAt: pointLots.expiresAt })
+    .from(pointLots)
+    .where(and(eq(pointLots.userId, userId), openLot, isNotNull(pointLots.expiresAt)))
+    .orderBy(asc(pointLots.expiresAt));
+
+  if (lots.length === 0) return null;
+
+  const expiresOn = lots[0].expiresAt!.toDateString();
+  const sameDay = lots.filter((lot) => lot.expiresAt!.toDateString() === expiresOn);
+
+  return {
+    points: sameDay.reduce((sum, lot) => sum + lot.remaining, 0),
+    expiresAt: lots[0].expiresAt,
+  };
+}
+
+export function startPointExpiryJob() {
+  if (!POINT_EXPIRY_MONTHS) return;
+
+  const run = async () => {
+    try {
+      await reconcilePointLots();
+      await expirePointLots();
+      await sendExpiryWarnings();
+    } catch (error) {
+      console.error('Point expiry job failed:', error);
+    }
+  };
+
+  run();
+  setInterval(run, EXPIRY_JOB_INTERVAL);
+}
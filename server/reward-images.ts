@@ -0,0 +1,71 @@
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import { createFileStorage } from "./utils/fileStorage";
+
+const storage = createFileStorage();
+
+export const REWARD_IMAGE_MAX_BYTES = Number(process.env.REWARD_IMAGE_MAX_MB ?? 5) * 1024 * 1024;
+
+const ACCEPTED_FORMATS = ["jpeg", "png", "webp"];
+
+// Thumbnails are for lists; the card size matches the 16:9 reward card
+const REWARD_IMAGE_SIZES = {
+  thumbnail: { width: 200, height: 200 },
+  card: { width: 800, height: 450 },
+} as const;
+
+export class RewardImageError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "RewardImageError";
+  }
+}
+
+type UploadedImage = {
+  data: Buffer;
+  size: number;
+  truncated: boolean;
+};
+
+// Checks the upload is a JPEG, PNG or WebP image by its contents rather than
+// the name or type the browser sent, then stores it at each size as WebP
+export async function storeRewardImage(file: UploadedImage) {
+  if (file.truncated || file.size > REWARD_IMAGE_MAX_BYTES) {
+    throw new RewardImageError(`Images can be at most ${REWARD_IMAGE_MAX_BYTES / (1024 * 1024)}MB`, 413);
+  }
+
+  const metadata = await sharp(file.data).metadata().catch(() => null);
+  if (!metadata?.format || !ACCEPTED_FORMATS.includes(metadata.format)) {
+    throw new RewardImageError("Upload a JPEG, PNG or WebP image");
+  }
+
+  const id = randomUUID();
+  const [thumbnailUrl, imageUrl] = await Promise.all(
+    (["thumbnail", "card"] as const).map(async (size) => {
+      const { width, height } = REWARD_IMAGE_SIZES[size];
+      const resized = await sharp(file.data)
+        .rotate()
+        .resize(width, height, { fit: "cover" })
+        .webp({ quality: 82 })
+        .toBuffer();
+
+      return storage.put(`rewards/${id}-${size}.webp`, resized, "image/webp");
+    })
+  );
+
+  return { imageUrl, thumbnailUrl };
+}
+
+// Removes images that are no longer used by a reward. URLs that were not
+// uploaded, such as ones pasted before uploads existed, are left alone.
+// Failures are logged rather than thrown, since the reward is already saved.
+export async function deleteRewardImages(urls: (string | null)[]) {
+  for (const url of urls) {
+    const key = url && storage.keyFor(url);
+    if (!key) continue;
+
+    await storage.delete(key).catch((error) => {
+      console.error(`Failed to delete reward image ${key}:`, error);
+    });
+  }
+}
@@ -0,0 +1,325 @@
+import { db, type DbExecutor } from "@db";
+import { cashRedemptions, rewardFulfilments, rewardLimitPeriods, rewards, rewardTypes, transactions, users, type Reward } from "@db/schema";
+import { and, count, eq, gt, gte, inArray, isNull, lte, ne, or, sql } from "drizzle-orm";
+import { z } from "zod";
+import { trackPointLots } from "./point-lots";
+import { notify, notifyAdmins, queueNotificationEmail } from "./notifications";
+import { logAdminAction } from "./admin-logger";
+import { createCashRedemption, assertCashRedemptionAllowed } from "./cash-redemptions";
+import { getVerifiedPayoutAccount, PAYOUT_ACCOUNT_REQUIRED } from "./payout-accounts";
+import { createRewardFulfilment } from "./fulfilments";
+import { claimVoucherCode, countUnusedVoucherCodes, takeVoucherCode } from "./voucher-codes";
+import { renderEmailTemplate } from "./email-templates";
+
+export type RewardType = (typeof rewardTypes.enumValues)[number];
+export type RewardLimitPeriod = (typeof rewardLimitPeriods.enumValues)[number];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const LIMIT_PERIOD_DAYS: Record<RewardLimitPeriod, number | null> = {
+  WEEK: 7,
+  MONTH: 30,
+  YEAR: 365,
+  LIFETIME: null,
+};
+
+const LIMIT_PERIOD_LABELS: Record<RewardLimitPeriod, string> = {
+  WEEK: "in any 7 days",
+  MONTH: "in any 30 days",
+  YEAR: "in any 12 months",
+  LIFETIME: "in total",
+};
+
+// Form fields left empty arrive as "" and mean "not set"
+const blankAsNull = (value: unknown) => (value === "" || value === undefined ? null : value);
+
+const rewardFields = {
+  name: z.string().trim().min(1, "Name is required"),
+  description: z.string().trim().min(1, "Description is required"),
+  pointsCost: z.coerce.number().int().positive("Points cost must be greater than 0"),
+  imageUrl: z.string().trim().min(1, "Upload an image for the reward"),
+  thumbnailUrl: z.preprocess(blankAsNull, z.string().trim().nullable()),
+  stock: z.preprocess(blankAsNull, z.coerce.number().int().min(0, "Stock cannot be negative").nullable()),
+  lowStockThreshold: z.coerce.number().int().min(0, "Low stock alert cannot be negative").default(5),
+  limitPerCustomer: z.preprocess(
+    blankAsNull,
+    z.coerce.number().int().positive("Limit per customer must be greater than 0").nullable()
+  ),
+  limitPeriod: z.enum(rewardLimitPeriods.enumValues).default("LIFETIME"),
+  availableFrom: z.preprocess(blankAsNull, z.coerce.date().nullable()),
+  availableUntil: z.preprocess(blankAsNull, z.coerce.date().nullable()),
+};
+
+// Fields that only apply to one type are cleared for the others
+export const rewardSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...rewardFields,
+    type: z.literal("CASH"),
+    randValue: z.coerce.number().positive("Rand value must be greater than 0").transform((value) => value.toFixed(2)),
+  }),
+  z.object({ ...rewardFields, type: z.literal("PHYSICAL") }),
+  z.object({ ...rewardFields, type: z.literal("VOUCHER") }),
+  z.object({ ...rewardFields, type: z.literal("EXPERIENCE") }),
+]).superRefine((reward, ctx) => {
+  if (reward.availableFrom && reward.availableUntil && reward.availableUntil <= reward.availableFrom) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["availableUntil"],
+      message: "Available until must be after available from",
+    });
+  }
+}).transform((reward) => ({ randValue: null, ...reward }));
+
+export const deliveryAddressSchema = z.object({
+  line1: z.string().trim().min(1, "Street address is required"),
+  line2: z.string().trim().optional(),
+  suburb: z.string().trim().optional(),
+  city: z.string().trim().min(1, "City is required"),
+  province: z.string().trim().min(1, "Province is required"),
+  postalCode: z.string().trim().regex(/^\d{4}$/, "Postal code must be 4 digits"),
+});
+
+export class RewardError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "RewardError";
+  }
+}
+
+// Admins see every reward that has not been deleted, including sold out ones
+// so they can restock them. Customers only see what they can redeem now.
+export async function listRewards(isAdmin: boolean) {
+  if (isAdmin) {
+    return db.query.rewards.findMany({
+      where: and(
+        isNull(rewards.deletedAt),
+        or(eq(rewards.available, true), eq(rewards.stock, 0))
+      ),
+    });
+  }
+
+  const now = new Date();
+  return db.query.rewards.findMany({
+    where: and(
+      eq(rewards.available, true),
+      isNull(rewards.deletedAt),
+      or(isNull(rewards.availableFrom), lte(rewards.availableFrom, now)),
+      or(isNull(rewards.availableUntil), gt(rewards.availableUntil, now))
+    ),
+  });
+}
+
+// Redemptions that count towards the reward's per-customer limit. Rejected
+// cash redemptions and cancelled orders were refunded, so they do not count.
+async function countCustomerRedemptions(executor: DbExecutor, userId: number, reward: Reward) {
+  const days = LIMIT_PERIOD_DAYS[reward.limitPeriod];
+
+  const [{ redeemed }] = await executor
+    .select({ redeemed: count() })
+    .from(transactions)
+    .leftJoin(cashRedemptions, eq(cashRedemptions.transactionId, transactions.id))
+    .leftJoin(rewardFulfilments, eq(rewardFulfilments.transactionId, transactions.id))
+    .where(and(
+      eq(transactions.userId, userId),
+      eq(transactions.rewardId, reward.id),
+      inArray(transactions.type, ["REDEEMED", "CASH_REDEMPTION"]),
+      or(isNull(cashRedemptions.status), ne(cashRedemptions.status, "REJECTED")),
+      or(isNull(rewardFulfilments.status), ne(rewardFulfilments.status, "CANCELLED")),
+      days === null ? undefined : gte(transactions.createdAt, new Date(Date.now() - days * DAY))
+    ));
+
+  return redeemed;
+}
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString("en-ZA", { day: "numeric", month: "long", year: "numeric" });
+}
+
+function formatTimes(times: number) {
+  return times === 1 ? "once" : times === 2 ? "twice" : `${times} times`;
+}
+
+export async function getDeliveryAddress(userId: number) {
+  const [user] = await db
+    .select({ deliveryAddress: users.deliveryAddress })
+    .from(users)
+    .where(eq(users.id, userId));
+
+  return user?.deliveryAddress ?? null;
+}
+
+export async function saveDeliveryAddress(userId: number, address: z.infer<typeof deliveryAddressSchema>) {
+  const [user] = await db
+    .update(users)
+    .set({ deliveryAddress: address })
+    .where(eq(users.id, userId))
+    .returning({ deliveryAddress: users.deliveryAddress });
+
+  return user.deliveryAddress;
+}
+
+// Spends the customer's points on a reward. What happens next depends on the
+// type: CASH opens a cash redemption for its Rand value, PHYSICAL opens an
+// order to ship to the customer's delivery address, VOUCHER hands out a code from the
+// reward's pool and EXPERIENCE is fulfilled now.
+export async function redeemReward(userId: number, rewardId: number) {
+  const reward = await db.query.rewards.findFirst({
+    where: eq(rewards.id, rewardId),
+  });
+
+  if (!reward || !reward.available || reward.deletedAt) throw new RewardError("Reward not found", 404);
+
+  const now = new Date();
+  if (reward.availableFrom && reward.availableFrom > now) {
+    throw new RewardError(`${reward.name} can be redeemed from ${formatDate(reward.availableFrom)}`);
+  }
+  if (reward.availableUntil && reward.availableUntil <= now) {
+    throw new RewardError(`${reward.name} is no longer available`);
+  }
+
+  const payoutAccount = reward.type === "CASH" ? await getVerifiedPayoutAccount(userId) : undefined;
+  if (reward.type === "CASH" && !payoutAccount) {
+    throw new RewardError(PAYOUT_ACCOUNT_REQUIRED);
+  }
+
+  const { customer, stock, voucherCode } = await db.transaction(async (tx) => {
+    const [customer] = await tx
+      .select({
+        id: users.id,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        points: users.points,
+        deliveryAddress: users.deliveryAddress,
+      })
+      .from(users)
+      .where(eq(users.id, userId))
+      .for("update");
+
+    if (!customer || customer.points < reward.pointsCost) {
+      throw new RewardError("Insufficient points");
+    }
+    if (reward.type === "PHYSICAL" && !customer.deliveryAddress) {
+      throw new RewardError("Add a delivery address on your profile before redeeming physical rewards");
+    }
+    if (reward.type === "CASH") {
+      await assertCashRedemptionAllowed(tx, userId, reward.randValue!);
+    }
+    if (reward.limitPerCustomer !== null) {
+      const redeemed = await countCustomerRedemptions(tx, userId, reward);
+      if (redeemed >= reward.limitPerCustomer) {
+        throw new RewardError(
+          `${reward.name} can be redeemed ${formatTimes(reward.limitPerCustomer)} per customer ${LIMIT_PERIOD_LABELS[reward.limitPeriod]}`
+        );
+      }
+    }
+
+    const code = reward.type === "VOUCHER" ? await takeVoucherCode(tx, reward.id) : undefined;
+    if (reward.type === "VOUCHER" && !code) {
+      throw new RewardError(`${reward.name} has run out of codes. Please try again later.`, 409);
+    }
+
+    // Take one from stock only if there is one left, so two customers
+    // cannot both get the last item. The reward closes when it sells out.
+    let stock: number | null = null;
+    if (reward.stock !== null) {
+      const [stocked] = await tx
+        .update(rewards)
+        .set({
+          stock: sql`${rewards.stock} - 1`,
+          available: sql`${rewards.stock} > 1`,
+        })
+        .where(and(eq(rewards.id, reward.id), gt(rewards.stock, 0)))
+        .returning({ stock: rewards.stock });
+
+      if (!stocked) throw new RewardError(`${reward.name} is out of stock`, 409);
+      stock = stocked.stock;
+    }
+
+    const [transaction] = await tx.insert(transactions).values({
+      userId,
+      points: -reward.pointsCost,
+      type: reward.type === "CASH" ? "CASH_REDEMPTION" : "REDEEMED",
+      description: reward.type === "CASH"
+        ? `Redeemed points for R${reward.randValue}`
+        : `Redeemed ${reward.name}`,
+      rewardId: reward.id,
+    }).returning();
+
+    await tx
+      .update(users)
+      .set({ points: sql`${users.points} - ${reward.pointsCost}` })
+      .where(eq(users.id, userId));
+
+    await trackPointLots(tx, transaction);
+
+    if (payoutAccount) {
+      // A cash reward pays a fixed amount, so record the rate it works out at
+      await createCashRedemption(tx, transaction, {
+        conversionRate: (Number(reward.randValue) / reward.pointsCost).toFixed(5),
+        amount: reward.randValue!,
+      }, payoutAccount.id);
+    }
+
+    if (reward.type === "PHYSICAL") {
+      await createRewardFulfilment(tx, transaction, customer.deliveryAddress!);
+    }
+
+    const voucherCode = code && await claimVoucherCode(tx, code.id, userId, transaction.id);
+    if (voucherCode) {
+      const email = await renderEmailTemplate("VOUCHER_REDEEMED", {
+        customer: { firstName: customer.firstName || "Valued Customer", lastName: customer.lastName || "" },
+        reward: reward.name,
+        points: reward.pointsCost,
+        code: voucherCode.code,
+      });
+      await queueNotificationEmail(tx, userId, "REWARD_FULFILLED", { to: customer.email, ...email });
+    }
+
+    await logAdminAction({
+      adminId: userId,
+      actionType: "POINT_ADJUSTMENT",
+      targetUserId: userId,
+      details: reward.type === "CASH"
+        ? `Points deducted (-${reward.pointsCost}) for cash redemption of R${reward.randValue}`
+        : `Points deducted (-${reward.pointsCost}) for redeeming reward: ${reward.name}`,
+    });
+
+    return { customer, stock, voucherCode };
+  });
+
+  // Alert once on reaching the threshold and again on selling out. Voucher
+  // rewards also run low when their pool of codes does.
+  const isLow = (left: number) => left === 0 || left === reward.lowStockThreshold;
+  if (stock !== null && isLow(stock)) {
+    await notifyAdmins("REWARD_LOW_STOCK", { rewardId: reward.id, rewardName: reward.name, stock });
+  }
+  if (reward.type === "VOUCHER") {
+    const codesLeft = await countUnusedVoucherCodes(db, reward.id);
+    if (isLow(codesLeft)) {
+      await notifyAdmins("REWARD_LOW_STOCK", { rewardId: reward.id, rewardName: reward.name, stock: codesLeft });
+    }
+  }
+
+  switch (reward.type) {
+    case "CASH":
+      await notifyAdmins("CASH_REDEMPTION_REQUESTED", {
+        customerId: userId,
+        customerName: `${customer.firstName} ${customer.lastName}`,
+        points: reward.pointsCost,
+        amount: reward.randValue!,
+      });
+      return { message: `Successfully redeemed R${reward.randValue}` };
+    case "PHYSICAL":
+      return { message: `Successfully redeemed ${reward.name}. It will be sent to your delivery address.` };
+    case "VOUCHER":
+      await notify(userId, "REWARD_FULFILLED", { rewardId: reward.id, rewardName: reward.name });
+      return {
+        message: `Successfully redeemed ${reward.name}. Your code is ${voucherCode!.code}`,
+        voucherCode: voucherCode!.code,
+      };
+    default:
+      await notify(userId, "REWARD_FULFILLED", { rewardId: reward.id, rewardName: reward.name });
+      return { message: `Successfully redeemed ${reward.name}` };
+  }
+}
@@ -2,70 +2,51 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth, authCrypto } from "./auth";
 import { db } from "@db";
-import { rewards, transactions, users, products, productAssignments, product_activities, adminLogs, referralStats } from "@db/schema";
-import { eq, desc, sql, inArray } from "drizzle-orm";
+import { rewards, transactions, users, products, productAssignments, product_activities, adminLogs, referralStats, tiers, spendTypes, emailStatuses, type Transaction } from "@db/schema";
+import { and, eq, desc, sql, inArray, isNull } from "drizzle-orm";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { logAdminAction, getAdminLogs } from "./admin-logger";
-import { sendEmail, formatPointsAssignmentEmail, formatAdminNotificationEmail } from "./utils/emailService";
+import { activityEventSchema, applyActivityEvent, isTrustedEventSource, ActivityEventError } from "./activity-events";
+import { importActivityEvents, formatActivityImportResults } from "./activity-import";
+import { getTiers, getTierInfo, computeTierInfo, calculateSpendAward, refreshQualifyingPoints, notifyTierChange, getTierHistory, startQualifyingPointsRefresh } from "./tiers";
+import { notify, notifyAdmins, takeNotifications, listNotifications, markNotificationRead, markAllNotificationsRead, queueNotificationEmail, getNotificationPreferences, updateNotificationPreferences, notificationPreferenceSchema } from "./notifications";
+import { setupWebSocket } from "./websocket";
+import { renderEmailTemplate, previewEmailTemplate, listEmailTemplates, getEmailTemplateVersions, saveEmailTemplate, isEmailTemplateKey, emailTemplateContentSchema, EmailTemplateError } from "./email-templates";
+import { createCashRedemption, assertCashRedemptionAllowed, getCashRedemptionAllowance, listCashRedemptions, transitionCashRedemption, backfillCashRedemptions, isCashRedemptionStatus, CashRedemptionError } from "./cash-redemptions";
+import { conversionRateSchema, getConversionRate, getConversionRateSummary, listConversionRates, scheduleConversionRate, cancelConversionRate, pointsToRand, ConversionRateError } from "./conversion-rates";
+import { createPayoutBatch, listPayoutBatches, exportPayoutBatch, markPayoutBatchPaid, isPayoutFileFormat, PayoutBatchError } from "./payout-batches";
+import { listFulfilments, transitionFulfilment, isFulfilmentStatus, shipmentSchema, FulfilmentError, type Shipment } from "./fulfilments";
+import { storeRewardImage, deleteRewardImages, RewardImageError } from "./reward-images";
+import { importVoucherCodes, listVoucherCodes, VoucherCodeError } from "./voucher-codes";
+import { rewardSchema, deliveryAddressSchema, getDeliveryAddress, saveDeliveryAddress, listRewards, redeemReward, RewardError } from "./rewards";
+import { PAYOUT_ACCOUNT_REQUIRED, payoutAccountSchema, getPayoutAccountView, getVerifiedPayoutAccount, savePayoutAccount, listPayoutAccounts, revealPayoutAccount, reviewPayoutAccount, isPayoutAccountStatus, PayoutAccountError } from "./payout-accounts";
+import { queueEmail, listEmailOutbox, resendEmail, startEmailOutboxWorker, type EmailStatus } from "./email-outbox";
+import { trackPointLots, getNextPointsExpiry, startPointExpiryJob } from "./point-lots";
+import { z } from "zod";
 import { parse } from 'csv-parse';
 import { stringify } from 'csv-stringify';
 import { Readable } from 'stream';
 
-// Global notifications queue with timestamp-based cleanup
-const notificationsQueue = new Map<number, Array<{
-  type: string;
-  userId: number;
-  points: number;
-  description: string;
-  timestamp: string;
-}>>();
-
-// Configuration for polling
-const POLLING_CONFIG = {
-  maxQueueSize: 100, // Maximum notifications per user
-  retentionPeriod: 5 * 60 * 1000, // 5 minutes retention for notifications
-  cleanupInterval: 60 * 1000 // Cleanup every minute
-};
-
-// Cleanup old notifications periodically
-setInterval(() => {
-  const cutoffTime = new Date(Date.now() - POLLING_CONFIG.retentionPeriod);
-  for (const [userId, notifications] of notificationsQueue.entries()) {
-    const validNotifications = notifications.filter(
-      n => new Date(n.timestamp) > cutoffTime
-    );
-    if (validNotifications.length === 0) {
-      notificationsQueue.delete(userId);
-    } else {
-      notificationsQueue.set(userId, validNotifications);
-    }
-  }
-}, POLLING_CONFIG.cleanupInterval);
-
-// Helper function to add notification
-function addNotification(notification: {
-  type: string;
-  userId: number;
-  points: number;
-  description: string;
-}) {
-  const userNotifications = notificationsQueue.get(notification.userId) || [];
-  const newNotification = {
-    ...notification,
-    timestamp: new Date().toISOString()
-  };
-
-  console.log('Adding notification:', newNotification); // Debug log
-
-  // Add to queue, maintain max size
-  userNotifications.push(newNotification);
-  if (userNotifications.length > POLLING_CONFIG.maxQueueSize) {
-    userNotifications.shift(); // Remove oldest
-  }
-
-  notificationsQueue.set(notification.userId, userNotifications);
-}
+const tierSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  threshold: z.coerce.number().int().min(0, "Threshold must be zero or more"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colour must be a hex value like #eab308"),
+  sortOrder: z.coerce.number().int().default(0),
+  premiumMultiplier: z.coerce.number().min(0, "Multipliers cannot be negative").default(0),
+  cardMultiplier: z.coerce.number().min(0, "Multipliers cannot be negative").default(0),
+  posMultiplier: z.coerce.number().min(0, "Multipliers cannot be negative").default(0),
+});
+
+const pointsAllocationSchema = z.object({
+  userId: z.coerce.number().int().positive(),
+  points: z.coerce.number().int().default(0),
+  description: z.string().trim().min(1, "Description is required"),
+  spend: z.array(z.object({
+    spendType: z.enum(spendTypes.enumValues),
+    randAmount: z.coerce.number().positive("Rand amount must be greater than 0"),
+  })).default([]),
+}).refine((data) => data.points !== 0 || data.spend.length > 0, "Enter points or a spend amount to award");
 
 const scryptAsync = promisify(scrypt);
 const crypto = {
@@ -79,19 +60,187 @@ const crypto = {
 export function registerRoutes(app: Express): Server {
   setupAuth(app);
   const httpServer = createServer(app);
+  setupWebSocket(httpServer);
+  startQualifyingPointsRefresh();
+  startPointExpiryJob();
+  startEmailOutboxWorker();
+  backfillCashRedemptions().catch((error) => {
+    console.error('Failed to backfill cash redemptions:', error);
+  });
 
-  // New endpoint for polling notifications
+  // Fallback for clients without a WebSocket connection
   app.get("/api/notifications/poll", async (req, res) => {
     if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      res.json(await takeNotifications(req.user.id));
+    } catch (error) {
+      console.error('Error polling notifications:', error);
+      res.status(500).send('Failed to poll notifications');
+    }
+  });
 
-    const userNotifications = notificationsQueue.get(req.user.id) || [];
-    // Clear notifications after sending
-    if (userNotifications.length > 0) {
-      notificationsQueue.set(req.user.id, []);
-      console.log('Sending notifications:', userNotifications); // Debug log
+  app.get("/api/notifications", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      res.json(await listNotifications(req.user.id));
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      res.status(500).send('Failed to fetch notifications');
     }
+  });
 
-    res.json(userNotifications);
+  app.post("/api/notifications/read-all", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      await markAllNotificationsRead(req.user.id);
+      res.json({ message: "All notifications marked as read" });
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      res.status(500).send('Failed to mark notifications as read');
+    }
+  });
+
+  app.post("/api/notifications/:id/read", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      const notification = await markNotificationRead(req.user.id, parseInt(req.params.id));
+      if (!notification) return res.status(404).send("Notification not found");
+      res.json(notification);
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+      res.status(500).send('Failed to mark notification as read');
+    }
+  });
+
+  app.get("/api/user/notification-preferences", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      res.json(await getNotificationPreferences(req.user.id));
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+      res.status(500).send('Failed to fetch notification preferences');
+    }
+  });
+
+  app.put("/api/user/notification-preferences", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      const parsed = notificationPreferenceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid notification preferences",
+          details: parsed.error.errors
+        });
+      }
+
+      await updateNotificationPreferences(req.user.id, parsed.data);
+      res.json(await getNotificationPreferences(req.user.id));
+    } catch (error) {
+      console.error('Error updating notification preferences:', error);
+      res.status(500).send('Failed to update notification preferences');
+    }
+  });
+
+  app.get("/api/user/payout-account", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      res.json(await getPayoutAccountView(req.user.id));
+    } catch (error) {
+      console.error('Error fetching payout account:', error);
+      res.status(500).send('Failed to fetch payout account');
+    }
+  });
+
+  app.put("/api/user/payout-account", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      const parsed = payoutAccountSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid bank details",
+          details: parsed.error.errors
+        });
+      }
+
+      res.json(await savePayoutAccount(req.user.id, parsed.data));
+    } catch (error) {
+      console.error('Error saving payout account:', error);
+      res.status(500).send('Failed to save payout account');
+    }
+  });
+
+  app.get("/api/user/delivery-address", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      res.json(await getDeliveryAddress(req.user.id));
+    } catch (error) {
+      console.error('Error fetching delivery address:', error);
+      res.status(500).send('Failed to fetch delivery address');
+    }
+  });
+
+  app.put("/api/user/delivery-address", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      const parsed = deliveryAddressSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid delivery address",
+          details: parsed.error.errors
+        });
+      }
+
+      res.json(await saveDeliveryAddress(req.user.id, parsed.data));
+    } catch (error) {
+      console.error('Error saving delivery address:', error);
+      res.status(500).send('Failed to save delivery address');
+    }
+  });
+
+  app.get("/api/admin/payout-accounts", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+    try {
+      const status = typeof req.query.status === "string" && isPayoutAccountStatus(req.query.status)
+        ? req.query.status
+        : undefined;
+
+      res.json(await listPayoutAccounts(status));
+    } catch (error) {
+      console.error('Error fetching payout accounts:', error);
+      res.status(500).send('Failed to fetch payout accounts');
+    }
+  });
+
+  app.get("/api/admin/payout-accounts/:id/reveal", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+    try {
+      res.json(await revealPayoutAccount(parseInt(req.params.id), req.user.id));
+    } catch (error) {
+      if (error instanceof PayoutAccountError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error revealing payout account:', error);
+      res.status(500).send('Failed to reveal payout account');
+    }
+  });
+
+  app.post("/api/admin/payout-accounts/:id/:decision(verify|reject)", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+    try {
+      const account = await reviewPayoutAccount(
+        parseInt(req.params.id),
+        req.params.decision === "verify" ? "VERIFIED" : "REJECTED",
+        req.user.id,
+        typeof req.body?.reason === "string" ? req.body.reason : undefined
+      );
+      res.json(account);
+    } catch (error) {
+      if (error instanceof PayoutAccountError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error reviewing payout account:', error);
+      res.status(500).send('Failed to review payout account');
+    }
   });
 
   // Add new endpoint to fetch admin logs
@@ -127,10 +276,111 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  app.get("/api/admin/email-outbox", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+    try {
+      const status = typeof req.query.status === "string" && emailStatuses.enumValues.includes(req.query.status as EmailStatus)
+        ? req.query.status as EmailStatus
+        : undefined;
+
+      res.json(await listEmailOutbox(status));
+    } catch (error) {
+      console.error('Error fetching email outbox:', error);
+      res.status(500).send('Failed to fetch email outbox');
+    }
+  });
+
+  app.post("/api/admin/email-outbox/:id/resend", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+    try {
+      const email = await resendEmail(parseInt(req.params.id));
+      if (!email) return res.status(404).send("Email not found");
+
+      await logAdminAction({
+        adminId: req.user.id,
+        actionType: "EMAIL_RESENT",
+        targetUserId: email.userId ?? undefined,
+        details: `Queued "${email.subject}" to ${email.to} for resending`,
+      });
+
+      res.json(email);
+    } catch (error) {
+      console.error('Error resending email:', error);
+      res.status(500).send('Failed to resend email');
+    }
+  });
+
+  app.get("/api/admin/email-templates", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+    try {
+      res.json(await listEmailTemplates());
+    } catch (error) {
+      console.error('Error fetching email templates:', error);
+      res.status(500).send('Failed to fetch email templates');
+    }
+  });
+
+  app.get("/api/admin/email-templates/:key/versions", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+    if (!isEmailTemplateKey(req.params.key)) return res.status(404).send("Email template not found");
+    try {
+      res.json(await getEmailTemplateVersions(req.params.key));
+    } catch (error) {
+      console.error('Error fetching email template versions:', error);
+      res.status(500).send('Failed to fetch email template versions');
+    }
+  });
+
+  app.post("/api/admin/email-templates/:key/preview", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+    if (!isEmailTemplateKey(req.params.key)) return res.status(404).send("Email template not found");
+
+    const parsed = emailTemplateContentSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid email template", details: parsed.error.errors });
+    }
+
+    const { subject = "", text = "", html = "" } = parsed.data;
+    res.json(previewEmailTemplate(req.params.key, { subject, text, html }));
+  });
+
+  app.put("/api/admin/email-templates/:key", async (req, res) => {
+    if (!req.user?.isSuperAdmin) return res.status(403).send("Only super admins can edit email templates");
+    if (!isEmailTemplateKey(req.params.key)) return res.status(404).send("Email template not found");
+
+    const parsed = emailTemplateContentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid email template", details: parsed.error.errors });
+    }
+
+    try {
+      const template = await saveEmailTemplate(req.params.key, parsed.data, req.user.id);
+
+      await logAdminAction({
+        adminId: req.user.id,
+        actionType: "EMAIL_TEMPLATE_UPDATED",
+        details: `Saved version ${template.version} of the ${template.key} email template`,
+      });
+
+      res.json(template);
+    } catch (error) {
+      if (error instanceof EmailTemplateError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error saving email template:', error);
+      res.status(500).send('Failed to save email template');
+    }
+  });
+
   // Modify points allocation to include email notifications
   app.post("/api/admin/points", async (req, res) => {
     if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
-    const { userId, points, description } = req.body;
+
+    const parsed = pointsAllocationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid points allocation", details: parsed.error.errors });
+    }
+    const { userId, points, description, spend } = parsed.data;
 
     try {
       const result = await db.transaction(async (tx) => {
@@ -141,7 +391,8 @@ export function registerRoutes(app: Express): Server {
             email: users.email,
             firstName: users.firstName,
             lastName: users.lastName,
-            points: users.points
+            points: users.points,
+            qualifyingPoints: users.qualifyingPoints
           })
           .from(users)
           .where(eq(users.id, userId))
@@ -163,68 +414,87 @@ export function registerRoutes(app: Express): Server {
           .where(eq(users.id, req.user.id))
           .limit(1);
 
-        await tx.insert(transactions).values({
-          userId,
-          points,
-          type: "ADMIN_ADJUSTMENT",
-          description,
-        });
+        const awarded: Transaction[] = [];
+        if (points !== 0) {
+          const [adjustment] = await tx.insert(transactions).values({
+            userId,
+            points,
+            type: "ADMIN_ADJUSTMENT",
+            description,
+          }).returning();
+          awarded.push(adjustment);
+        }
+
+        // Spend is priced on the server from the customer's tier multipliers
+        const allTiers = await getTiers();
+        let totalPoints = points;
+        for (const item of spend) {
+          const award = calculateSpendAward(allTiers, targetUser.qualifyingPoints ?? 0, item.spendType, item.randAmount);
+          const [earned] = await tx.insert(transactions).values({
+            userId,
+            points: award.points,
+            type: "EARNED",
+            description: `${description} (R${item.randAmount.toFixed(2)} ${item.spendType.toLowerCase()} spend at ${award.tier.name} x${award.multiplier})`,
+            spendType: item.spendType,
+            randAmount: item.randAmount.toFixed(2),
+            multiplier: award.multiplier,
+            tierName: award.tier.name,
+          }).returning();
+          awarded.push(earned);
+          totalPoints += award.points;
+        }
 
         const [updatedUser] = await tx
           .update(users)
           .set({
-            points: sql`${users.points} + ${points}`,
+            points: sql`${users.points} + ${totalPoints}`,
           })
           .where(eq(users.id, userId))
           .returning();
 
+        for (const transaction of awarded) {
+          await trackPointLots(tx, transaction);
+        }
+
         // Get the user's tier after points update
-        const tierPoints = updatedUser.points;
-        let currentTier = "Bronze";
-        if (tierPoints >= 150000) currentTier = "Platinum";
-        else if (tierPoints >= 100000) currentTier = "Gold";
-        else if (tierPoints >= 50000) currentTier = "Purple";
-        else if (tierPoints >= 10000) currentTier = "Silver";
-
-        // Send email to customer
-        const customerEmail = formatPointsAssignmentEmail(
-          targetUser.firstName || "Valued Customer",
-          points,
-          description,
-          currentTier
-        );
-        await sendEmail({
-          to: targetUser.email,
-          subject: "Points Added to Your Account",
-          text: customerEmail.text,
-          html: customerEmail.html
+        const { qualifyingPoints, tierChange } = await refreshQualifyingPoints(tx, userId, description);
+        const currentTier = (await getTierInfo(qualifyingPoints)).name;
+
+        // Emails are queued with the adjustment so they go out only if it commits
+        const customer = { firstName: targetUser.firstName || "Valued Customer", lastName: targetUser.lastName || "" };
+        const customerEmail = await renderEmailTemplate("POINTS_ASSIGNED", {
+          customer,
+          points: totalPoints,
+          reason: description,
+          tier: currentTier,
         });
+        await queueNotificationEmail(tx, userId, "POINTS_ADJUSTED", { to: targetUser.email, ...customerEmail });
 
-        // Send email to admin
-        const adminEmail = formatAdminNotificationEmail(
-          `${targetUser.firstName} ${targetUser.lastName}`,
-          points,
-          description,
-          admin.firstName || "Admin"
-        );
-        await sendEmail({
-          to: admin.email,
-          subject: `Points Assignment Confirmation: ${targetUser.firstName} ${targetUser.lastName}`,
-          text: adminEmail.text,
-          html: adminEmail.html
+        const adminEmail = await renderEmailTemplate("ADMIN_POINTS_ASSIGNED", {
+          admin: { firstName: admin.firstName || "Admin" },
+          customer,
+          points: totalPoints,
+          reason: description,
         });
+        await queueNotificationEmail(tx, admin.id, "ADMIN_POINTS_ASSIGNED", { to: admin.email, ...adminEmail });
 
         await logAdminAction({
           adminId: req.user.id,
           actionType: "POINT_ADJUSTMENT",
           targetUserId: userId,
-          details: `Adjusted points by ${points}. Reason: ${description}`,
+          details: `Adjusted points by ${totalPoints}. Reason: ${description}`,
         });
 
-        return updatedUser;
+        const customerName = `${targetUser.firstName} ${targetUser.lastName}`;
+        return { updatedUser, tierChange, totalPoints, customerName, adminId: admin.id };
       });
 
-      res.json({ message: "Points adjusted successfully" });
+      const { totalPoints, customerName } = result;
+      await notify(userId, "POINTS_ADJUSTED", { points: totalPoints, reason: description });
+      await notify(result.adminId, "ADMIN_POINTS_ASSIGNED", { customerName, points: totalPoints, reason: description });
+      await notifyTierChange(result.tierChange);
+
+      res.json({ message: "Points adjusted successfully", points: result.updatedUser.points });
     } catch (error) {
       console.error('Error adjusting points:', error);
       res.status(500).send('Failed to adjust points');
@@ -449,7 +719,22 @@ export function registerRoutes(app: Express): Server {
         },
       },
     });
-    res.json(customers);
+    const allTiers = await getTiers();
+    res.json(customers.map((customer) => ({
+      ...customer,
+      qualifyingPoints: customer.qualifyingPoints ?? 0,
+      tier: computeTierInfo(allTiers, customer.qualifyingPoints ?? 0),
+    })));
+  });
+
+  app.get("/api/admin/customers/:id/tier-history", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+    try {
+      res.json(await getTierHistory(parseInt(req.params.id)));
+    } catch (error) {
+      console.error('Error fetching tier history:', error);
+      res.status(500).send('Failed to fetch tier history');
+    }
   });
 
   // Add customer deletion endpoint
@@ -992,6 +1277,66 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Award product activity points from an upstream event (premium payment, renewal, etc.)
+  app.post("/api/activities/events", async (req, res) => {
+    if (!req.user?.isAdmin && !isTrustedEventSource(req)) return res.status(403).send("Unauthorized");
+
+    const parsed = activityEventSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Invalid activity event",
+        details: parsed.error.errors
+      });
+    }
+
+    try {
+      const result = await applyActivityEvent(parsed.data);
+      res.status(result.status === "applied" ? 201 : 200).json(result);
+    } catch (error) {
+      if (error instanceof ActivityEventError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error applying activity event:', error);
+      res.status(500).send('Failed to apply activity event');
+    }
+  });
+
+  // Bulk upload of activity events (monthly premium / renewal runs from finance)
+  app.post("/api/admin/activities/import", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+
+    if (!req.files || !req.files.file || Array.isArray(req.files.file)) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    const dryRun = req.body.dryRun !== "false";
+
+    try {
+      const results = await importActivityEvents(req.files.file.data.toString(), { dryRun });
+
+      if (dryRun) {
+        return res.json(results);
+      }
+
+      await logAdminAction({
+        adminId: req.user.id,
+        actionType: "POINT_ADJUSTMENT",
+        details: `Imported activity events: ${results.applied} applied (${results.totalPoints} points), ${results.duplicates} duplicates, ${results.failed} failed`,
+      });
+
+      res.json({
+        ...results,
+        resultsCsv: await formatActivityImportResults(results.rows),
+      });
+    } catch (error) {
+      console.error('Error importing activity events:', error);
+      res.status(500).json({
+        error: 'Failed to import activity events',
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
   // Customer Routes
   app.get("/api/customer/points", async (req, res) => {
     if (!req.user) return res.status(401).send("Unauthorized");
@@ -1001,6 +1346,45 @@ export function registerRoutes(app: Express): Server {
     res.json(user);
   });
 
+  app.get("/api/customer/tier", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      const user = await db.query.users.findFirst({
+        where: eq(users.id, req.user.id),
+        columns: { points: true, qualifyingPoints: true },
+      });
+      if (!user) return res.status(404).send("User not found");
+
+      res.json({
+        ...(await getTierInfo(user.qualifyingPoints ?? 0)),
+        qualifyingPoints: user.qualifyingPoints ?? 0,
+      });
+    } catch (error) {
+      console.error('Error fetching customer tier:', error);
+      res.status(500).send('Failed to fetch tier');
+    }
+  });
+
+  app.get("/api/customer/tier-history", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      res.json(await getTierHistory(req.user.id));
+    } catch (error) {
+      console.error('Error fetching tier history:', error);
+      res.status(500).send('Failed to fetch tier history');
+    }
+  });
+
+  app.get("/api/customer/points-expiry", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      res.json(await getNextPointsExpiry(req.user.id));
+    } catch (error) {
+      console.error('Error fetching points expiry:', error);
+      res.status(500).send('Failed to fetch points expiry');
+    }
+  });
+
   app.get("/api/customer/transactions", async (req, res) => {
     if (!req.user) return res.status(401).send("Unauthorized");
     const userTransactions = await db.query.transactions.findMany({
@@ -1008,6 +1392,12 @@ export function registerRoutes(app: Express): Server {
       orderBy: desc(transactions.createdAt),
       with: {
         reward: true,
+        voucherCode: {
+          columns: { code: true },
+        },
+        fulfilment: {
+          columns: { status: true, courier: true, trackingNumber: true, cancellationReason: true },
+        },
       },
     });
     res.json(userTransactions);
@@ -1160,27 +1550,195 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  app.get("/api/conversion-rate", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      res.json(await getConversionRateSummary());
+    } catch (error) {
+      console.error('Error fetching conversion rate:', error);
+      res.status(500).send('Failed to fetch conversion rate');
+    }
+  });
+
+  app.get("/api/customer/cash-redemption-allowance", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      res.json(await getCashRedemptionAllowance(db, req.user.id));
+    } catch (error) {
+      console.error('Error fetching cash redemption allowance:', error);
+      res.status(500).send('Failed to fetch cash redemption allowance');
+    }
+  });
+
+  app.get("/api/admin/conversion-rates", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+    try {
+      res.json(await listConversionRates());
+    } catch (error) {
+      console.error('Error fetching conversion rates:', error);
+      res.status(500).send('Failed to fetch conversion rates');
+    }
+  });
+
+  app.post("/api/admin/conversion-rates", async (req, res) => {
+    if (!req.user?.isSuperAdmin) return res.status(403).send("Only super admins can change the conversion rate");
+
+    const parsed = conversionRateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid conversion rate", details: parsed.error.errors });
+    }
+
+    try {
+      res.json(await scheduleConversionRate(parsed.data, req.user.id));
+    } catch (error) {
+      if (error instanceof ConversionRateError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error setting conversion rate:', error);
+      res.status(500).send('Failed to set conversion rate');
+    }
+  });
+
+  app.delete("/api/admin/conversion-rates/:id", async (req, res) => {
+    if (!req.user?.isSuperAdmin) return res.status(403).send("Only super admins can change the conversion rate");
+
+    try {
+      await cancelConversionRate(parseInt(req.params.id), req.user.id);
+      res.json({ message: "Scheduled rate cancelled" });
+    } catch (error) {
+      if (error instanceof ConversionRateError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error cancelling conversion rate:', error);
+      res.status(500).send('Failed to cancel conversion rate');
+    }
+  });
+
+  // Tier Management Routes
+  app.get("/api/tiers", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+    try {
+      res.json(await getTiers());
+    } catch (error) {
+      console.error('Error fetching tiers:', error);
+      res.status(500).send('Failed to fetch tiers');
+    }
+  });
+
+  app.post("/api/admin/tiers", async (req, res) => {
+    if (!req.user?.isSuperAdmin) return res.status(403).send("Only super admins can manage tiers");
+
+    const parsed = tierSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid tier", details: parsed.error.errors });
+    }
+
+    try {
+      const [tier] = await db.insert(tiers).values(parsed.data).returning();
+
+      await logAdminAction({
+        adminId: req.user.id,
+        actionType: "TIER_CREATED",
+        details: `Created tier: ${tier.name} (from ${tier.threshold} points)`,
+      });
+
+      res.json(tier);
+    } catch (error) {
+      console.error('Error creating tier:', error);
+      res.status(500).send('Failed to create tier');
+    }
+  });
+
+  app.put("/api/admin/tiers/:id", async (req, res) => {
+    if (!req.user?.isSuperAdmin) return res.status(403).send("Only super admins can manage tiers");
+    const { id } = req.params;
+
+    const parsed = tierSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid tier", details: parsed.error.errors });
+    }
+
+    try {
+      const [tier] = await db
+        .update(tiers)
+        .set({ ...parsed.data, updatedAt: new Date() })
+        .where(eq(tiers.id, parseInt(id)))
+        .returning();
+
+      if (!tier) {
+        return res.status(404).send("Tier not found");
+      }
+
+      await logAdminAction({
+        adminId: req.user.id,
+        actionType: "TIER_UPDATED",
+        details: `Updated tier: ${tier.name} (from ${tier.threshold} points)`,
+      });
+
+      res.json(tier);
+    } catch (error) {
+      console.error('Error updating tier:', error);
+      res.status(500).send('Failed to update tier');
+    }
+  });
+
+  app.delete("/api/admin/tiers/:id", async (req, res) => {
+    if (!req.user?.isSuperAdmin) return res.status(403).send("Only super admins can manage tiers");
+    const { id } = req.params;
+
+    try {
+      const allTiers = await getTiers();
+      if (allTiers.length <= 1) {
+        return res.status(400).send("At least one tier is required");
+      }
+
+      const [tier] = await db
+        .delete(tiers)
+        .where(eq(tiers.id, parseInt(id)))
+        .returning();
+
+      if (!tier) {
+        return res.status(404).send("Tier not found");
+      }
+
+      await logAdminAction({
+        adminId: req.user.id,
+        actionType: "TIER_DELETED",
+        details: `Deleted tier: ${tier.name}`,
+      });
+
+      res.json({ message: "Tier deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting tier:', error);
+      res.status(500).send('Failed to delete tier');
+    }
+  });
+
   // Shared Routes
   app.get("/api/rewards", async (req, res) => {
-    const allRewards = await db.query.rewards.findMany({
-      where: eq(rewards.available, true),
-    });
+    const allRewards = await listRewards(!!req.user?.isAdmin);
     res.json(allRewards);
   });
 
   app.post("/api/rewards", async (req, res) => {
     if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+
+    const parsed = rewardSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid reward", details: parsed.error.errors });
+    }
+
     try {
       const [reward] = await db.insert(rewards).values({
-        ...req.body,
-        available: true,
+        ...parsed.data,
+        available: parsed.data.stock !== 0,
       }).returning();
 
       // Log both the reward creation and the points cost setting
       await logAdminAction({
         adminId: req.user.id,
         actionType: "REWARD_CREATED",
-        details: `Created new ${req.body.type === 'CASH' ? 'cash redemption' : ''} reward: ${reward.name} (Cost: ${reward.pointsCost} points${req.body.type === 'CASH' ? `, R${(reward.pointsCost * 0.015).toFixed(2)}` : ''})`,
+        details: `Created new ${reward.type.toLowerCase()} reward: ${reward.name} (Cost: ${reward.pointsCost} points${reward.type === 'CASH' ? `, pays R${reward.randValue}` : ''})`,
       });
 
       res.json(reward);
@@ -1193,30 +1751,44 @@ export function registerRoutes(app: Express): Server {
   app.put("/api/rewards/:id", async (req, res) => {
     if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
     const { id } = req.params;
-    const { name, description, pointsCost, imageUrl, available } = req.body;
+
+    const parsed = rewardSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid reward", details: parsed.error.errors });
+    }
 
     try {
+      const [previous] = await db
+        .select({ imageUrl: rewards.imageUrl, thumbnailUrl: rewards.thumbnailUrl })
+        .from(rewards)
+        .where(and(eq(rewards.id, parseInt(id)), isNull(rewards.deletedAt)));
+
       const [reward] = await db
         .update(rewards)
         .set({
-          name,
-          description,
-          pointsCost,
-          imageUrl,
-          available,
+          ...parsed.data,
+          // Restocking reopens a sold-out reward
+          available: parsed.data.stock === 0
+            ? false
+            : sql`${rewards.available} or coalesce(${rewards.stock}, -1) = 0`,
+          ...(typeof req.body.available === "boolean" && { available: req.body.available }),
         })
-        .where(eq(rewards.id, parseInt(id)))
+        .where(and(eq(rewards.id, parseInt(id)), isNull(rewards.deletedAt)))
         .returning();
 
       if (!reward) {
         return res.status(404).send("Reward not found");
       }
 
+      await deleteRewardImages(
+        [previous.imageUrl, previous.thumbnailUrl].filter((url) => url !== reward.imageUrl && url !== reward.thumbnailUrl)
+      );
+
       // Log the reward update
       await logAdminAction({
         adminId: req.user.id,
         actionType: "REWARD_UPDATED",
-        details: `Updated reward: ${reward.name} (New Cost: ${reward.pointsCost} points)`,
+        details: `Updated reward: ${reward.name} (New Cost: ${reward.pointsCost} points${reward.stock !== null ? `, Stock: ${reward.stock}` : ''})`,
       });
 
       res.json(reward);
@@ -1234,7 +1806,7 @@ export function registerRoutes(app: Express): Server {
       const [reward] = await db
         .select()
         .from(rewards)
-        .where(eq(rewards.id, parseInt(id)))
+        .where(and(eq(rewards.id, parseInt(id)), isNull(rewards.deletedAt)))
         .limit(1);
 
       if (!reward) {
@@ -1243,9 +1815,11 @@ export function registerRoutes(app: Express): Server {
 
       await db
         .update(rewards)
-        .set({ available: false })
+        .set({ available: false, deletedAt: new Date() })
         .where(eq(rewards.id, parseInt(id)));
 
+      await deleteRewardImages([reward.imageUrl, reward.thumbnailUrl]);
+
       // Log the reward deletion
       await logAdminAction({
         adminId: req.user.id,
@@ -1260,62 +1834,69 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/rewards/redeem", async (req, res) => {
-    if (!req.user) return res.status(401).send("Unauthorized");
-    const { rewardId } = req.body;
+  // Images are uploaded before the reward is saved; the form submits the URLs
+  app.post("/api/admin/reward-images", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
 
-    const reward = await db.query.rewards.findFirst({
-      where: eq(rewards.id, rewardId),
-    });
+    if (!req.files || !req.files.image || Array.isArray(req.files.image)) {
+      return res.status(400).json({ error: "No image uploaded" });
+    }
 
-    if (!reward) return res.status(404).send("Reward not found");
+    try {
+      res.json(await storeRewardImage(req.files.image));
+    } catch (error) {
+      if (error instanceof RewardImageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error uploading reward image:', error);
+      res.status(500).send('Failed to upload reward image');
+    }
+  });
 
-    const user = await db.query.users.findFirst({
-      where: eq(users.id, req.user.id),
-    });
+  app.get("/api/admin/rewards/:id/voucher-codes", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
 
-    if (!user || user.points < reward.pointsCost) {
-      return res.status(400).send("Insufficient points");
+    try {
+      res.json(await listVoucherCodes(parseInt(req.params.id)));
+    } catch (error) {
+      if (error instanceof VoucherCodeError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error fetching voucher codes:', error);
+      res.status(500).send('Failed to fetch voucher codes');
     }
+  });
 
-    try {
-      await db.transaction(async (tx) => {
-        // Create the transaction record
-        await tx.insert(transactions).values({
-          userId: user.id,
-          points: -reward.pointsCost,
-          type: reward.type === "CASH" ? "CASH_REDEMPTION" : "REDEEMED",
-          description: reward.type === "CASH"
-            ? `Redeemed points for R${(reward.pointsCost * 0.015).toFixed(2)}`
-            : `Redeemed ${reward.name}`,
-          rewardId,
-        });
+  // Upload a CSV of codes, one per line, into a voucher reward's pool
+  app.post("/api/admin/rewards/:id/voucher-codes", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
 
-        // Update user points
-        await tx
-          .update(users)
-          .set({ points: user.points - reward.pointsCost })
-          .where(eq(users.id, user.id));
+    if (!req.files || !req.files.file || Array.isArray(req.files.file)) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
 
-        // Log the point adjustment
-        await logAdminAction({
-          adminId: user.id,
-          actionType: "POINT_ADJUSTMENT",
-          targetUserId: user.id,
-          details: reward.type === "CASH"
-            ? `Points deducted (-${reward.pointsCost}) for cash redemption of R${(reward.pointsCost * 0.015).toFixed(2)}`
-            : `Points deducted (-${reward.pointsCost}) for redeeming reward: ${reward.name}`,
-        });
-      });
+    try {
+      const result = await importVoucherCodes(parseInt(req.params.id), req.files.file.data.toString(), req.user.id);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof VoucherCodeError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error uploading voucher codes:', error);
+      res.status(500).send('Failed to upload voucher codes');
+    }
+  });
 
-      // Return success message
-      res.json({
-        success: true,
-        message: reward.type === "CASH"
-          ? `Successfully redeemed R${(reward.pointsCost * 0.015).toFixed(2)}`
-          : `Successfully redeemed ${reward.name}`
-      });
+  app.post("/api/rewards/redeem", async (req, res) => {
+    if (!req.user) return res.status(401).send("Unauthorized");
+
+    try {
+      const result = await redeemReward(req.user.id, Number(req.body?.rewardId));
+      res.json({ success: true, ...result });
     } catch (error) {
+      if (error instanceof RewardError || error instanceof CashRedemptionError) {
+        return res.status(error.status).send(error.message);
+      }
       console.error('Error processing reward redemption:', error);
       res.status(500).send('Failed to process reward redemption');
     }
@@ -1326,8 +1907,8 @@ export function registerRoutes(app: Express): Server {
     if (!req.user) return res.status(401).send("Unauthorized");
     const { points } = req.body;
 
-    if (!points || points <= 0) {
-      return res.status(400).send("Invalid points amount");
+    if (!Number.isInteger(points) || points <= 0) {
+      return res.status(400).send("Enter a whole number of points to redeem");
     }
 
     try {
@@ -1339,13 +1920,31 @@ export function registerRoutes(app: Express): Server {
         return res.status(400).send("Insufficient points");
       }
 
-      await db.transaction(async (tx) => {
+      const payoutAccount = await getVerifiedPayoutAccount(user.id);
+      if (!payoutAccount) {
+        return res.status(400).send(PAYOUT_ACCOUNT_REQUIRED);
+      }
+
+      const amount = await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select({ points: users.points })
+          .from(users)
+          .where(eq(users.id, user.id))
+          .for("update");
+        if (current.points < points) {
+          throw new CashRedemptionError("Insufficient points");
+        }
+
+        const { randPerPoint } = await getConversionRate(tx);
+        const amount = pointsToRand(points, randPerPoint);
+        await assertCashRedemptionAllowed(tx, user.id, amount);
+
         // Create the transaction record
         const [transaction] = await tx.insert(transactions).values({
           userId: user.id,
           points: -points,
           type: "CASH_REDEMPTION",
-          description: `Redeemed points for R${(points * 0.015).toFixed(2)}`,
+          description: `Redeemed points for R${amount}`,
           status: "PENDING",
           createdAt: new Date(),
         }).returning();
@@ -1358,83 +1957,182 @@ export function registerRoutes(app: Express): Server {
           })
           .where(eq(users.id, user.id));
 
-        // Add notification for admins
-        addNotification({
-          type: "CASH_REDEMPTION",
-          userId: req.user.id,
-          points: points,
-          description: `${user.firstName} ${user.lastName} redeemed ${points} points for R${(points * 0.015).toFixed(2)}`
-        });
+        await trackPointLots(tx, transaction);
+        await createCashRedemption(tx, transaction, { conversionRate: randPerPoint, amount }, payoutAccount.id);
+
+        return amount;
+      });
+
+      // Add notification for admins
+      await notifyAdmins("CASH_REDEMPTION_REQUESTED", {
+        customerId: user.id,
+        customerName: `${user.firstName} ${user.lastName}`,
+        points,
+        amount,
       });
 
       res.json({
         success: true,
-        message: `Successfully redeemed R${(points * 0.015).toFixed(2)}`
+        message: `Successfully redeemed R${amount}`
       });
     } catch (error) {
+      if (error instanceof CashRedemptionError) {
+        return res.status(error.status).send(error.message);
+      }
       console.error('Error processing cash redemption:', error);
       res.status(500).send('Failed to process cash redemption');
     }
   });
 
-  // Update the cash redemptions endpoint to properly filter and include user details
   app.get("/api/admin/cash-redemptions", async (req, res) => {
     if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
 
     try {
-      const cashRedemptions = await db.query.transactions.findMany({
-        where: eq(transactions.type, "CASH_REDEMPTION"),
-        orderBy: [desc(transactions.createdAt)],
-        with: {
-          user: {
-            columns: {
-              firstName: true,
-              lastName: true,
-              email: true
-            }
-          }
-        }
-      });
+      const status = typeof req.query.status === "string" && isCashRedemptionStatus(req.query.status)
+        ? req.query.status
+        : undefined;
 
-      res.json(cashRedemptions);
+      res.json(await listCashRedemptions(status));
     } catch (error) {
       console.error('Error fetching cash redemptions:', error);
       res.status(500).send('Failed to fetch cash redemptions');
     }
   });
 
-  // Add endpoint to mark cash redemption as processed
-  app.post("/api/admin/cash-redemptions/:id/process", async (req, res) => {
+  const cashRedemptionActions = {
+    approve: "APPROVED",
+    reject: "REJECTED",
+    "mark-paid": "PAID",
+  } as const;
+
+  app.post("/api/admin/cash-redemptions/:id/:action(approve|reject|mark-paid)", async (req, res) => {
     if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
-    const { id } = req.params;
+    const next = cashRedemptionActions[req.params.action as keyof typeof cashRedemptionActions];
 
     try {
-      const [transaction] = await db
-        .update(transactions)
-        .set({
-          status: 'PROCESSED',
-          processedAt: new Date(),
-          processedBy: req.user.id
-        })
-        .where(eq(transactions.id, parseInt(id)))
-        .returning();
+      const redemption = await transitionCashRedemption(
+        parseInt(req.params.id),
+        next,
+        req.user.id,
+        typeof req.body?.reason === "string" ? req.body.reason : undefined
+      );
+      res.json(redemption);
+    } catch (error) {
+      if (error instanceof CashRedemptionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error updating cash redemption:', error);
+      res.status(500).send('Failed to update cash redemption');
+    }
+  });
+
+  app.get("/api/admin/fulfilments", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+
+    try {
+      const status = typeof req.query.status === "string" && isFulfilmentStatus(req.query.status)
+        ? req.query.status
+        : undefined;
+
+      res.json(await listFulfilments(status));
+    } catch (error) {
+      console.error('Error fetching fulfilments:', error);
+      res.status(500).send('Failed to fetch fulfilments');
+    }
+  });
+
+  const fulfilmentActions = {
+    ship: "SHIPPED",
+    deliver: "DELIVERED",
+    cancel: "CANCELLED",
+  } as const;
+
+  app.post("/api/admin/fulfilments/:id/:action(ship|deliver|cancel)", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+    const next = fulfilmentActions[req.params.action as keyof typeof fulfilmentActions];
 
-      if (!transaction) {
-        return res.status(404).send("Transaction not found");
+    let shipment: Shipment | undefined;
+    if (next === "SHIPPED") {
+      const parsed = shipmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid shipment", details: parsed.error.errors });
       }
+      shipment = parsed.data;
+    }
 
-      // Log the cash redemption processing
-      await logAdminAction({
-        adminId: req.user.id,
-        actionType: "POINT_ADJUSTMENT",
-        targetUserId: transaction.userId,
-        details: `Processed cash redemption of R${(Math.abs(transaction.points) * 0.015).toFixed(2)} (${Math.abs(transaction.points)} points)`,
+    try {
+      const fulfilment = await transitionFulfilment(parseInt(req.params.id), next, req.user.id, {
+        shipment,
+        reason: typeof req.body?.reason === "string" ? req.body.reason : undefined,
       });
+      res.json(fulfilment);
+    } catch (error) {
+      if (error instanceof FulfilmentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error updating fulfilment:', error);
+      res.status(500).send('Failed to update fulfilment');
+    }
+  });
 
-      res.json(transaction);
+  app.get("/api/admin/payout-batches", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+
+    try {
+      res.json(await listPayoutBatches());
     } catch (error) {
-      console.error('Error processing cash redemption:', error);
-      res.status(500).send('Failed to process cash redemption');
+      console.error('Error fetching payout batches:', error);
+      res.status(500).send('Failed to fetch payout batches');
+    }
+  });
+
+  app.post("/api/admin/payout-batches", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+
+    try {
+      res.json(await createPayoutBatch(req.user.id));
+    } catch (error) {
+      if (error instanceof PayoutBatchError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error creating payout batch:', error);
+      res.status(500).send('Failed to create payout batch');
+    }
+  });
+
+  app.get("/api/admin/payout-batches/:id/export", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+
+    const format = typeof req.query.format === "string" ? req.query.format : "csv";
+    if (!isPayoutFileFormat(format)) {
+      return res.status(400).json({ error: "Format must be csv or fixed" });
+    }
+
+    try {
+      const file = await exportPayoutBatch(parseInt(req.params.id), format, req.user.id);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename=${file.filename}`);
+      res.send(file.content);
+    } catch (error) {
+      if (error instanceof PayoutBatchError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error exporting payout batch:', error);
+      res.status(500).send('Failed to export payout batch');
+    }
+  });
+
+  app.post("/api/admin/payout-batches/:id/mark-paid", async (req, res) => {
+    if (!req.user?.isAdmin) return res.status(403).send("Unauthorized");
+
+    try {
+      res.json(await markPayoutBatchPaid(parseInt(req.params.id), req.user.id));
+    } catch (error) {
+      if (error instanceof PayoutBatchError || error instanceof CashRedemptionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error marking payout batch as paid:', error);
+      res.status(500).send('Failed to mark payout batch as paid');
     }
   });
 
@@ -1480,25 +2178,10 @@ export function registerRoutes(app: Express): Server {
         console.log(resetLink);
         console.log('=============================\n');
 
-        await sendEmail({
+        await queueEmail(db, {
           to: email,
-          subject: "Password Reset Request",
-          text: `
-            You requested a password reset. Click the following link to reset your password:
-            ${resetLink}
-
-            This link will expire in 1 hour.
-
-            If you didn't request this, please ignore this email.
-          `,
-          html: `
-            <h1>Password Reset Request</h1>
-            <p>You requested a password reset. Click the following link to reset your password:</p>
-            <p><a href="${resetLink}">${resetLink}</a></p>
-            <p>This link will expire in 1 hour.</p>
-            <p>If you didn't request this, please ignore this email.</p>
-          `
-        });
+          ...await renderEmailTemplate("PASSWORD_RESET", { resetLink }),
+        }, user.id);
       }
 
       // Always return success to prevent email enumeration
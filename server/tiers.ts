@@ -0,0 +1,272 @@
+import { db, type DbExecutor } from "@db";
+import { tiers, tierHistory, users, transactions, spendTypes, type Tier, type TierHistory } from "@db/schema";
+import { and, asc, desc, eq, gte, inArray, sql } from "drizzle-orm";
+import { notify } from "./notifications";
+import { renderEmailTemplate } from "./email-templates";
+
+// Tier placement uses points earned, not the spendable balance, so redeeming
+// points never drops a customer down a tier.
+export const QUALIFYING_TRANSACTION_TYPES = ["EARNED", "ADMIN_ADJUSTMENT", "REFERRAL_BONUS"] as const;
+
+// 0 counts lifetime earnings; any other value is a rolling window in months
+const QUALIFYING_WINDOW_MONTHS = Number(process.env.TIER_QUALIFYING_WINDOW_MONTHS || 0);
+const QUALIFYING_REFRESH_INTERVAL = 24 * 60 * 60 * 1000;
+
+// Seeded the first time tiers are read, matching the original programme levels
+export const DEFAULT_TIERS = [
+  { name: "Bronze", threshold: 0, color: "#d97706", sortOrder: 1, premiumMultiplier: 0, cardMultiplier: 0, posMultiplier: 0 },
+  { name: "Silver", threshold: 10000, color: "#9ca3af", sortOrder: 2, premiumMultiplier: 1, cardMultiplier: 0.05, posMultiplier: 1 },
+  { name: "Purple", threshold: 50000, color: "#a855f7", sortOrder: 3, premiumMultiplier: 1.5, cardMultiplier: 0.1, posMultiplier: 1.5 },
+  { name: "Gold", threshold: 100000, color: "#eab308", sortOrder: 4, premiumMultiplier: 2, cardMultiplier: 0.25, posMultiplier: 2 },
+  { name: "Platinum", threshold: 150000, color: "#c084fc", sortOrder: 5, premiumMultiplier: 2.5, cardMultiplier: 0.5, posMultiplier: 2.5 },
+];
+
+export type SpendType = (typeof spendTypes.enumValues)[number];
+
+const MULTIPLIER_COLUMNS = {
+  PREMIUM: "premiumMultiplier",
+  CARD: "cardMultiplier",
+  POS: "posMultiplier",
+} as const satisfies Record<SpendType, keyof Tier>;
+
+export type TierInfo = {
+  id: number;
+  name: string;
+  color: string;
+  threshold: number;
+  nextTier?: {
+    id: number;
+    name: string;
+    color: string;
+    threshold: number;
+    pointsNeeded: number;
+  };
+};
+
+export async function getTiers(): Promise<Tier[]> {
+  const rows = await db.query.tiers.findMany({
+    orderBy: [asc(tiers.threshold)],
+  });
+  if (rows.length > 0) return rows;
+
+  await db.insert(tiers).values(DEFAULT_TIERS).onConflictDoNothing();
+  return db.query.tiers.findMany({
+    orderBy: [asc(tiers.threshold)],
+  });
+}
+
+// The current tier is the highest threshold the points reach; customers
+// below every threshold are placed in the lowest tier.
+export function computeTierInfo(allTiers: Tier[], points: number): TierInfo {
+  const ordered = [...allTiers].sort((a, b) => a.threshold - b.threshold);
+  let index = 0;
+  ordered.forEach((tier, i) => {
+    if (points >= tier.threshold) index = i;
+  });
+
+  const current = ordered[index];
+  const next = ordered[index + 1];
+
+  return {
+    id: current.id,
+    name: current.name,
+    color: current.color,
+    threshold: current.threshold,
+    nextTier: next && {
+      id: next.id,
+      name: next.name,
+      color: next.color,
+      threshold: next.threshold,
+      pointsNeeded: next.threshold - points,
+    },
+  };
+}
+
+export async function getTierInfo(points: number) {
+  return computeTierInfo(await getTiers(), points);
+}
+
+export function getEarnMultiplier(tier: Tier, spendType: SpendType) {
+  return tier[MULTIPLIER_COLUMNS[spendType]];
+}
+
+// Awards are priced at the tier the customer holds before the spend is
+// credited, so one large payment cannot earn at the tier it unlocks.
+export function calculateSpendAward(allTiers: Tier[], qualifyingPoints: number, spendType: SpendType, randAmount: number) {
+  const tierInfo = computeTierInfo(allTiers, qualifyingPoints);
+  const tier = allTiers.find((t) => t.id === tierInfo.id)!;
+  const multiplier = getEarnMultiplier(tier, spendType);
+
+  return {
+    tier,
+    multiplier,
+    points: Math.floor(randAmount * multiplier),
+  };
+}
+
+function qualifyingWindowStart() {
+  if (!QUALIFYING_WINDOW_MONTHS) return undefined;
+  const start = new Date();
+  start.setMonth(start.getMonth() - QUALIFYING_WINDOW_MONTHS);
+  return start;
+}
+
+// Recomputes the cached qualifying points for one user and records a tier
+// change if it moved them. Call it in the same transaction that writes a
+// qualifying transaction, then pass the change to notifyTierChange once the
+// transaction has committed.
+export async function refreshQualifyingPoints(executor: DbExecutor, userId: number, reason: string) {
+  const windowStart = qualifyingWindowStart();
+  const [user] = await executor
+    .select({ qualifyingPoints: users.qualifyingPoints })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const [row] = await executor
+    .select({ total: sql<string>`coalesce(sum(${transactions.points}), 0)` })
+    .from(transactions)
+    .where(and(
+      eq(transactions.userId, userId),
+      inArray(transactions.type, [...QUALIFYING_TRANSACTION_TYPES]),
+      windowStart ? gte(transactions.createdAt, windowStart) : undefined
+    ));
+
+  const qualifyingPoints = Math.max(0, Number(row?.total || 0));
+  await executor
+    .update(users)
+    .set({ qualifyingPoints })
+    .where(eq(users.id, userId));
+
+  const tierChange = await recordTierChange(
+    executor,
+    await getTiers(),
+    userId,
+    user?.qualifyingPoints ?? 0,
+    qualifyingPoints,
+    reason
+  );
+
+  return { qualifyingPoints, tierChange };
+}
+
+async function recordTierChange(
+  executor: DbExecutor,
+  allTiers: Tier[],
+  userId: number,
+  before: number,
+  after: number,
+  reason: string
+) {
+  const from = computeTierInfo(allTiers, before);
+  const to = computeTierInfo(allTiers, after);
+  if (from.id === to.id) return null;
+
+  const [change] = await executor
+    .insert(tierHistory)
+    .values({
+      userId,
+      fromTier: from.name,
+      toTier: to.name,
+      direction: to.threshold > from.threshold ? "UPGRADE" : "DOWNGRADE",
+      qualifyingPoints: after,
+      reason,
+    })
+    .returning();
+
+  return change;
+}
+
+export async function notifyTierChange(change: TierHistory | null) {
+  if (!change) return;
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, change.userId),
+    columns: { email: true, firstName: true, lastName: true },
+  });
+  if (!user) return;
+
+  const email = await renderEmailTemplate(change.direction === "UPGRADE" ? "TIER_UPGRADE" : "TIER_DOWNGRADE", {
+    customer: { firstName: user.firstName || "Valued Customer", lastName: user.lastName || "" },
+    fromTier: change.fromTier,
+    tier: change.toTier,
+  });
+  await notify(change.userId, "TIER_CHANGE", {
+    fromTier: change.fromTier,
+    toTier: change.toTier,
+    direction: change.direction,
+  }, { to: user.email, ...email });
+}
+
+export async function getTierHistory(userId: number) {
+  return db.query.tierHistory.findMany({
+    where: eq(tierHistory.userId, userId),
+    orderBy: [desc(tierHistory.createdAt)],
+  });
+}
+
+export async function refreshAllQualifyingPoints({ notify }: { notify: boolean }) {
+  const windowStart = qualifyingWindowStart();
+  const allTiers = await getTiers();
+
+  const changes = await db.transaction(async (tx) => {
+    const before = await tx
+      .select({ id: users.id, qualifyingPoints: users.qualifyingPoints })
+      .from(users);
+    const previous = new Map<number, number>();
+    before.forEach((user) => {
+      if (user.qualifyingPoints !== null) previous.set(user.id, user.qualifyingPoints);
+    });
+
+    const updated = await tx
+      .update(users)
+      .set({
+        qualifyingPoints: sql`greatest(0, coalesce((
+          select sum(t.points) from ${transactions} t
+          where t.user_id = ${users.id}
+            and t.type in (${sql.join(QUALIFYING_TRANSACTION_TYPES.map((type) => sql`${type}`), sql`, `)})
+            ${windowStart ? sql`and t.created_at >= ${windowStart}` : sql``}
+        ), 0))`,
+      })
+      .returning({ id: users.id, qualifyingPoints: users.qualifyingPoints });
+
+    // Customers whose value was never calculated, as on the first deploy,
+    // are being backfilled rather than changing tier, so nothing is recorded
+    const recorded: TierHistory[] = [];
+    for (const user of updated) {
+      if (!previous.has(user.id)) continue;
+
+      const change = await recordTierChange(
+        tx,
+        allTiers,
+        user.id,
+        previous.get(user.id)!,
+        user.qualifyingPoints ?? 0,
+        windowStart ? "Qualifying window refresh" : "Qualifying points recalculated"
+      );
+      if (change) recorded.push(change);
+    }
+    return recorded;
+  });
+
+  if (notify) {
+    for (const change of changes) {
+      await notifyTierChange(change);
+    }
+  }
+}
+
+// Backfills existing users at startup and, for rolling windows, lets old
+// earnings age out once a day. The startup run records tier moves without
+// notifying, so a deploy does not email every customer, and the first
+// backfill records none.
+export function startQualifyingPointsRefresh() {
+  const run = (notify: boolean) => refreshAllQualifyingPoints({ notify }).catch((error) => {
+    console.error('Failed to refresh qualifying points:', error);
+  });
+
+  run(false);
+  if (QUALIFYING_WINDOW_MONTHS) {
+    setInterval(() => run(true), QUALIFYING_REFRESH_INTERVAL);
+  }
+}
@@ -1,113 +1,26 @@
-import nodemailer from 'nodemailer';
+import { createEmailTransport } from './emailTransport';
 
-// Create reusable transporter with more detailed options
-const transporter = nodemailer.createTransport({
-  host: 'smtp.gmail.com',
-  port: 587,
-  secure: false, // true for 465, false for other ports
-  auth: {
-    user: process.env.EMAIL_USER,
-    pass: process.env.EMAIL_PASSWORD
-  },
-  debug: true, // Enable debug output
-  logger: true // Log information to the console
-});
+// Chosen once at startup from EMAIL_TRANSPORT; see emailTransport.ts
+const transport = createEmailTransport();
 
-interface EmailParams {
+export interface EmailParams {
   to: string;
   subject: string;
   text?: string;
   html?: string;
 }
 
-export async function sendEmail({ to, subject, text, html }: EmailParams): Promise<boolean> {
-  try {
-    console.log('Attempting to send email to:', to);
-    console.log('Using EMAIL_USER:', process.env.EMAIL_USER);
-
-    // Verify SMTP connection configuration
-    const verification = await transporter.verify();
-    console.log('SMTP Connection verified:', verification);
-
-    const result = await transporter.sendMail({
-      from: process.env.EMAIL_USER,
-      to,
-      subject,
-      text,
-      html
-    });
-
-    console.log('Email sent successfully:', result);
-    return true;
-  } catch (error) {
-    console.error('Detailed email error:', error);
-    if (error instanceof Error) {
-      console.error('Error name:', error.name);
-      console.error('Error message:', error.message);
-      console.error('Error stack:', error.stack);
-    }
-    return false;
-  }
-}
-
-export function formatPointsAssignmentEmail(
-  customerName: string,
-  points: number,
-  description: string,
-  currentTier: string
-): { text: string; html: string } {
-  const text = `
-    Dear ${customerName},
-
-    ${points} points have been assigned to your account.
-    Reason: ${description}
-
-    Your current tier is: ${currentTier}
-
-    Thank you for your business!
-  `;
-
-  const html = `
-    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-      <h2>Points Assignment Notification</h2>
-      <p>Dear ${customerName},</p>
-      <p><strong>${points}</strong> points have been assigned to your account.</p>
-      <p><strong>Reason:</strong> ${description}</p>
-      <p><strong>Your current tier:</strong> ${currentTier}</p>
-      <br/>
-      <p>Thank you for your business!</p>
-    </div>
-  `;
-
-  return { text, html };
+// Throws when the message can't be handed to the mail server. Only the
+// outbox worker should call this; everything else queues through
+// queueEmail so failures are retried and visible to admins.
+export async function sendEmail({ to, subject, text, html }: EmailParams) {
+  await transport.send({
+    from: process.env.EMAIL_FROM || process.env.EMAIL_USER || "",
+    to,
+    subject,
+    text,
+    html
+  });
+
+  console.log(`Email sent via ${transport.name}:`, subject);
 }
-
-export function formatAdminNotificationEmail(
-  customerName: string,
-  points: number,
-  description: string,
-  adminName: string
-): { text: string; html: string } {
-  const text = `
-    Hello ${adminName},
-
-    Points Assignment Notification:
-    Customer: ${customerName}
-    Points: ${points}
-    Reason: ${description}
-  `;
-
-  const html = `
-    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-      <h2>Points Assignment Notification</h2>
-      <p>Hello ${adminName},</p>
-      <div style="margin: 20px 0; padding: 15px; border-left: 4px solid #0070f3;">
-        <p><strong>Customer:</strong> ${customerName}</p>
-        <p><strong>Points:</strong> ${points}</p>
-        <p><strong>Reason:</strong> ${description}</p>
-      </div>
-    </div>
-  `;
-
-  return { text, html };
-}
\ No newline at end of file
@@ -0,0 +1,118 @@
+import fs from "fs/promises";
+import { randomUUID } from "crypto";
+import path from "path";
+import nodemailer from "nodemailer";
+import sgMail, { type MailDataRequired } from "@sendgrid/mail";
+import type { EmailParams } from "./emailService";
+
+export const EMAIL_TRANSPORTS = ["smtp", "sendgrid", "file", "memory"] as const;
+export type EmailTransportName = (typeof EMAIL_TRANSPORTS)[number];
+
+export interface OutgoingEmail extends EmailParams {
+  from: string;
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+export interface CapturedEmail extends OutgoingEmail {
+  raw: string;
+  sentAt: Date;
+}
+
+// Generic SMTP. Defaults match the original Gmail setup.
+function createSmtpTransport(): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || "smtp.gmail.com",
+    port: Number(process.env.SMTP_PORT || 587),
+    // true for implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.EMAIL_USER
+      ? { user: process.env.EMAIL_USER, pass: process.env.EMAIL_PASSWORD }
+      : undefined,
+    debug: process.env.SMTP_DEBUG === "true",
+    logger: process.env.SMTP_DEBUG === "true",
+  });
+
+  return {
+    name: "smtp",
+    async send(email) {
+      await transporter.sendMail(email);
+    },
+  };
+}
+
+function createSendGridTransport(): EmailTransport {
+  if (!process.env.SENDGRID_API_KEY) {
+    throw new Error("SENDGRID_API_KEY must be set to use the sendgrid email transport");
+  }
+  sgMail.setApiKey(process.env.SENDGRID_API_KEY);
+
+  return {
+    name: "sendgrid",
+    async send({ to, from, subject, text, html }) {
+      await sgMail.send({ to, from, subject, text, html } as MailDataRequired);
+    },
+  };
+}
+
+// Renders the message as it would go over the wire, without sending it
+const renderer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+async function renderEmail(email: OutgoingEmail) {
+  const info = await renderer.sendMail(email);
+  return (info.message as Buffer).toString("utf8");
+}
+
+// Writes each message to EMAIL_OUTPUT_DIR as an .eml file for local development
+function createFileTransport(): EmailTransport {
+  const outputDir = path.resolve(process.env.EMAIL_OUTPUT_DIR || "emails");
+
+  return {
+    name: "file",
+    async send(email) {
+      const raw = await renderEmail(email);
+      const recipient = email.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+      await fs.mkdir(outputDir, { recursive: true });
+      await fs.writeFile(path.join(outputDir, `${Date.now()}-${randomUUID()}-${recipient}.eml`), raw);
+    },
+  };
+}
+
+const capturedEmails: CapturedEmail[] = [];
+
+// Keeps messages in process so automated tests can assert on them
+function createMemoryTransport(): EmailTransport {
+  return {
+    name: "memory",
+    async send(email) {
+      capturedEmails.push({ ...email, raw: await renderEmail(email), sentAt: new Date() });
+    },
+  };
+}
+
+export function getCapturedEmails() {
+  return [...capturedEmails];
+}
+
+export function clearCapturedEmails() {
+  capturedEmails.length = 0;
+}
+
+// Picks the transport named by EMAIL_TRANSPORT, SMTP by default
+export function createEmailTransport(name = process.env.EMAIL_TRANSPORT || "smtp"): EmailTransport {
+  switch (name) {
+    case "smtp":
+      return createSmtpTransport();
+    case "sendgrid":
+      return createSendGridTransport();
+    case "file":
+      return createFileTransport();
+    case "memory":
+      return createMemoryTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}". Expected one of: ${EMAIL_TRANSPORTS.join(", ")}`);
+  }
+}
@@ -0,0 +1,43 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+
+// Field-level encryption for sensitive values stored in the database.
+// AES-256-GCM with a key derived from DATA_ENCRYPTION_KEY. Values are stored
+// as "v1:<iv>:<auth tag>:<ciphertext>", each part base64.
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+let cachedKey: Buffer | null = null;
+
+function getKey() {
+  if (cachedKey) return cachedKey;
+
+  const secret = process.env.DATA_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error("DATA_ENCRYPTION_KEY must be set to store encrypted data");
+  }
+  cachedKey = scryptSync(secret, "opian-rewards-field-encryption", 32);
+  return cachedKey;
+}
+
+export function encrypt(value: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+export function decrypt(stored: string) {
+  const [version, iv, tag, ciphertext] = stored.split(":");
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error("Unrecognised encrypted value");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -0,0 +1,100 @@
+import fs from "fs/promises";
+import path from "path";
+
+export const FILE_STORAGE_DRIVERS = ["local", "object"] as const;
+export type FileStorageDriverName = (typeof FILE_STORAGE_DRIVERS)[number];
+
+// URL path local files are served from
+export const LOCAL_UPLOADS_PATH = "/uploads";
+
+export interface FileStorage {
+  name: FileStorageDriverName;
+  // Stores the file under key, e.g. "rewards/abc-card.webp", and returns its public URL
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  delete(key: string): Promise<void>;
+  // The key of a URL returned by put, or null for URLs stored elsewhere
+  keyFor(url: string): string | null;
+}
+
+function keyUnder(url: string, base: string) {
+  return url.startsWith(`${base}/`) ? url.slice(base.length + 1) : null;
+}
+
+export function getLocalUploadDir() {
+  return path.resolve(process.env.UPLOAD_DIR || "uploads");
+}
+
+// Writes files under UPLOAD_DIR, served by the app at /uploads
+function createLocalStorage(): FileStorage {
+  const root = getLocalUploadDir();
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) throw new Error(`Invalid storage key "${key}"`);
+    return file;
+  };
+
+  return {
+    name: "local",
+    async put(key, data) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+      return `${LOCAL_UPLOADS_PATH}/${key}`;
+    },
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+    keyFor(url) {
+      return keyUnder(url, LOCAL_UPLOADS_PATH);
+    },
+  };
+}
+
+// Any object store that accepts authenticated PUT and DELETE on
+// OBJECT_STORAGE_URL/<key> and serves objects from OBJECT_STORAGE_PUBLIC_URL
+function createObjectStorage(): FileStorage {
+  const endpoint = process.env.OBJECT_STORAGE_URL?.replace(/\/+$/, "");
+  if (!endpoint) {
+    throw new Error("OBJECT_STORAGE_URL must be set to use the object file storage");
+  }
+  const publicUrl = (process.env.OBJECT_STORAGE_PUBLIC_URL || endpoint).replace(/\/+$/, "");
+  const headers: Record<string, string> = process.env.OBJECT_STORAGE_TOKEN
+    ? { Authorization: `Bearer ${process.env.OBJECT_STORAGE_TOKEN}` }
+    : {};
+
+  return {
+    name: "object",
+    async put(key, data, contentType) {
+      const response = await fetch(`${endpoint}/${key}`, {
+        method: "PUT",
+        headers: { ...headers, "Content-Type": contentType },
+        body: data,
+      });
+      if (!response.ok) {
+        throw new Error(`Object storage rejected ${key}: ${response.status} ${await response.text()}`);
+      }
+      return `${publicUrl}/${key}`;
+    },
+    async delete(key) {
+      const response = await fetch(`${endpoint}/${key}`, { method: "DELETE", headers });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Object storage could not delete ${key}: ${response.status}`);
+      }
+    },
+    keyFor(url) {
+      return keyUnder(url, publicUrl);
+    },
+  };
+}
+
+// Picks the storage named by FILE_STORAGE, local disk by default
+export function createFileStorage(name = process.env.FILE_STORAGE || "local"): FileStorage {
+  switch (name) {
+    case "local":
+      return createLocalStorage();
+    case "object":
+      return createObjectStorage();
+    default:
+      throw new Error(`Unknown FILE_STORAGE "${name}". Expected one of: ${FILE_STORAGE_DRIVERS.join(", ")}`);
+  }
+}
@@ -0,0 +1,131 @@
+import { parse } from 'csv-parse';
+import { db, type DbExecutor } from "@db";
+import { rewards, voucherCodes } from "@db/schema";
+import { and, asc, count, desc, eq, isNull } from "drizzle-orm";
+import { logAdminAction } from "./admin-logger";
+
+const MAX_CODE_LENGTH = 100;
+
+export class VoucherCodeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "VoucherCodeError";
+  }
+}
+
+// One code per line in the first column. A "code" header row is skipped.
+function parseCodes(csvData: string) {
+  return new Promise<string[]>((resolve, reject) => {
+    parse(csvData, {
+      skip_empty_lines: true,
+      trim: true,
+      relax_column_count: true,
+    }, (err, records: string[][]) => {
+      if (err) return reject(err);
+      const codes = records
+        .map((record) => record[0] ?? "")
+        .filter((code, index) => code && !(index === 0 && code.toLowerCase() === "code"));
+      resolve(codes);
+    });
+  });
+}
+
+async function getVoucherReward(rewardId: number) {
+  const reward = await db.query.rewards.findFirst({
+    where: eq(rewards.id, rewardId),
+  });
+
+  if (!reward) throw new VoucherCodeError("Reward not found", 404);
+  if (reward.type !== "VOUCHER") throw new VoucherCodeError("Codes can only be added to voucher rewards");
+  return reward;
+}
+
+// Adds the codes in an uploaded CSV to a reward's pool. Codes already in the
+// pool, or repeated in the file, are counted as duplicates and skipped.
+export async function importVoucherCodes(rewardId: number, csvData: string, adminId: number) {
+  const reward = await getVoucherReward(rewardId);
+  const codes = await parseCodes(csvData);
+
+  if (codes.length === 0) throw new VoucherCodeError("The file has no codes");
+  const tooLong = codes.find((code) => code.length > MAX_CODE_LENGTH);
+  if (tooLong) {
+    throw new VoucherCodeError(`Codes can be at most ${MAX_CODE_LENGTH} characters: ${tooLong.slice(0, 20)}…`);
+  }
+
+  const unique = Array.from(new Set(codes));
+  const added = await db.transaction(async (tx) => {
+    const inserted = await tx
+      .insert(voucherCodes)
+      .values(unique.map((code) => ({ rewardId, code, uploadedBy: adminId })))
+      .onConflictDoNothing()
+      .returning({ id: voucherCodes.id });
+
+    await logAdminAction({
+      adminId,
+      actionType: "VOUCHER_CODES_UPLOADED",
+      details: `Uploaded ${inserted.length} voucher codes for ${reward.name} (${codes.length - inserted.length} duplicates skipped)`,
+    });
+
+    return inserted.length;
+  });
+
+  return { added, duplicates: codes.length - added };
+}
+
+// Every code in a reward's pool, unused first, with who received the used ones
+export async function listVoucherCodes(rewardId: number) {
+  const reward = await getVoucherReward(rewardId);
+
+  const codes = await db.query.voucherCodes.findMany({
+    where: eq(voucherCodes.rewardId, rewardId),
+    orderBy: [desc(isNull(voucherCodes.claimedAt)), desc(voucherCodes.claimedAt), asc(voucherCodes.id)],
+    with: {
+      claimer: {
+        columns: { id: true, firstName: true, lastName: true, email: true },
+      },
+    },
+  });
+
+  const unused = codes.filter((code) => !code.claimedAt).length;
+  return {
+    reward: { id: reward.id, name: reward.name },
+    total: codes.length,
+    unused,
+    used: codes.length - unused,
+    codes,
+  };
+}
+
+export async function countUnusedVoucherCodes(executor: DbExecutor, rewardId: number) {
+  const [{ unused }] = await executor
+    .select({ unused: count() })
+    .from(voucherCodes)
+    .where(and(eq(voucherCodes.rewardId, rewardId), isNull(voucherCodes.claimedAt)));
+
+  return unused;
+}
+
+// Locks one unused code for the redemption's transaction. Codes locked by
+// redemptions still in flight are skipped, so two customers redeeming at
+// once never receive the same code. Returns undefined when the pool is empty.
+export async function takeVoucherCode(executor: DbExecutor, rewardId: number) {
+  const [code] = await executor
+    .select()
+    .from(voucherCodes)
+    .where(and(eq(voucherCodes.rewardId, rewardId), isNull(voucherCodes.claimedAt)))
+    .orderBy(asc(voucherCodes.id))
+    .limit(1)
+    .for("update", { skipLocked: true });
+
+  return code;
+}
+
+export async function claimVoucherCode(executor: DbExecutor, codeId: number, userId: number, transactionId: number) {
+  const [code] = await executor
+    .update(voucherCodes)
+    .set({ transactionId, claimedBy: userId, claimedAt: new Date() })
+    .where(eq(voucherCodes.id, codeId))
+    .returning();
+
+  return code;
+}
@@ -1 +1,116 @@
-// This file is being removed in favor of a polling-based approach
\ No newline at end of file
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { db } from "@db";
+import { users } from "@db/schema";
+import { eq } from "drizzle-orm";
+import { sessionMiddleware } from "./auth";
+
+export const WEBSOCKET_PATH = "/ws";
+
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+type Client = {
+  socket: WebSocket;
+  userId: number;
+  isAlive: boolean;
+};
+
+const clients = new Set<Client>();
+
+// Where passport keeps the id it serialized for the logged-in user
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+  }
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\n\r\n`);
+  socket.destroy();
+}
+
+// Runs the express session middleware against the upgrade request and
+// returns the logged-in user's id, if any
+function authenticate(req: IncomingMessage) {
+  return new Promise<number | null>((resolve) => {
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, async () => {
+      const userId = request.session?.passport?.user;
+      if (!userId) return resolve(null);
+
+      try {
+        const [user] = await db
+          .select({ id: users.id, isEnabled: users.isEnabled })
+          .from(users)
+          .where(eq(users.id, userId))
+          .limit(1);
+
+        resolve(user?.isEnabled ? user.id : null);
+      } catch (error) {
+        console.error('WebSocket authentication error:', error);
+        resolve(null);
+      }
+    });
+  });
+}
+
+export function setupWebSocket(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req, socket, head) => {
+    // Other upgrades, such as the Vite HMR socket, are left to their own handlers
+    const { pathname } = new URL(req.url || "", "http://localhost");
+    if (pathname !== WEBSOCKET_PATH) return;
+
+    const userId = await authenticate(req);
+    if (!userId) return reject(socket, "401 Unauthorized");
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const client: Client = { socket: ws, userId, isAlive: true };
+      clients.add(client);
+
+      ws.on("pong", () => {
+        client.isAlive = true;
+      });
+      ws.on("close", () => {
+        clients.delete(client);
+      });
+      ws.on("error", (error) => {
+        console.error('WebSocket error:', error);
+        clients.delete(client);
+      });
+    });
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    clients.forEach((client) => {
+      if (!client.isAlive) {
+        clients.delete(client);
+        client.socket.terminate();
+        return;
+      }
+      client.isAlive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
+
+// Returns false when the user has no open socket, so callers can fall back
+export function sendToUser(userId: number, message: unknown) {
+  const payload = JSON.stringify(message);
+  let delivered = false;
+  clients.forEach((client) => {
+    if (client.userId === userId && client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(payload);
+      delivered = true;
+    }
+  });
+  return delivered;
+}